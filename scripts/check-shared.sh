@@ -0,0 +1,30 @@
+#!/bin/bash
+
+# Copy Check for TextExtract Pro
+# Modules the web app and the edge functions can't share (they import packages
+# differently) are kept as copies; this fails when a copy drifts. Only import
+# lines and the "Kept in sync" note may differ.
+
+set -e
+
+# Web app file and its edge function copy
+PAIRS=(
+  "src/lib/schemas.ts supabase/functions/_shared/structured.ts"
+)
+
+cd "$(dirname "$0")/.."
+
+strip() {
+  grep -v -e '^import ' -e '^// Kept in sync' "$1"
+}
+
+status=0
+for pair in "${PAIRS[@]}"; do
+  read -r web edge <<< "$pair"
+  if ! diff -u --label "$web" --label "$edge" <(strip "$web") <(strip "$edge"); then
+    echo "❌ $edge has drifted from $web"
+    status=1
+  fi
+done
+
+exit $status
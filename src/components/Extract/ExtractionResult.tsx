@@ -1,7 +1,13 @@
 import React, { useState } from 'react'
-import { Copy, Download, Edit3, Check, RefreshCw } from 'lucide-react'
+import { Copy, Download, Edit3, Check, RefreshCw, Braces, AlertTriangle, History } from 'lucide-react'
 import { useApp } from '../../contexts/AppContext'
 import toast from 'react-hot-toast'
+import type { OCRPageResult } from '../../lib/ocr'
+import type { SheetTable } from '../../lib/spreadsheets'
+import type { StructuredData } from '../../lib/schemas'
+import type { EnhancementChunk, EnhancementResult } from '../../lib/openai'
+import { LLMAuthError, LLMQuotaError } from '../../lib/llm'
+import { VersionHistory } from '../Versions/VersionHistory'
 
 interface ExtractionResultProps {
   result: {
@@ -9,16 +15,54 @@ interface ExtractionResultProps {
     extractedText: string
     confidence: number
     processingTime: number
+    pages?: OCRPageResult[]
+    sheets?: SheetTable[]
+    // Parts of the file that are missing from the text
+    warnings?: string[]
+    duplicateOf?: string
+    // Saved extraction; versions are only kept once there is one
+    extractionId?: string
   }
-  onEnhance?: (text: string) => Promise<string>
+  onEnhance?: (
+    text: string,
+    onChunk?: (chunks: EnhancementChunk[]) => void,
+    presetId?: string
+  ) => Promise<EnhancementResult>
+  // Enhancement presets to pick from; the select is hidden when there is only one
+  presets?: { id: string; name: string; description: string | null }[]
+  defaultPresetId?: string
+  // Saved schemas the fields can be extracted with; the button is hidden when empty
+  schemas?: { id: string; name: string }[]
+  onExtractFields?: (schemaId: string, text: string) => Promise<StructuredData>
+  onSaveEdit?: (text: string) => Promise<void>
 }
 
-export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
+export function ExtractionResult({
+  result,
+  onEnhance,
+  presets = [],
+  defaultPresetId,
+  schemas = [],
+  onExtractFields,
+  onSaveEdit
+}: ExtractionResultProps) {
   const { isDarkMode } = useApp()
   const [isEditing, setIsEditing] = useState(false)
   const [editedText, setEditedText] = useState(result.extractedText)
+  // Text of the current version, which Cancel goes back to
+  const [currentText, setCurrentText] = useState(result.extractedText)
   const [isEnhancing, setIsEnhancing] = useState(false)
+  const [presetId, setPresetId] = useState('')
   const [enhancedText, setEnhancedText] = useState('')
+  const [chunks, setChunks] = useState<EnhancementChunk[]>([])
+  // Last AI failure, kept on screen so the reason outlives the toast
+  const [aiError, setAiError] = useState<{ message: string; hint?: string } | null>(null)
+  const [schemaId, setSchemaId] = useState('')
+  const [isExtractingFields, setIsExtractingFields] = useState(false)
+  const [structured, setStructured] = useState<StructuredData | null>(null)
+  const [showVersions, setShowVersions] = useState(false)
+  // Bumped after enhancing or saving, so the version list picks up the new version
+  const [versionsKey, setVersionsKey] = useState(0)
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(enhancedText || editedText)
@@ -36,9 +80,44 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
     toast.success('Text downloaded!')
   }
 
-  const handleSave = () => {
+  // Edits start from the text on screen, which is the enhanced text once there is one
+  const startEditing = () => {
+    if (enhancedText) setEditedText(enhancedText)
+    setIsEditing(true)
+  }
+
+  // Leaving the editor throws the draft away, so what is shown and enhanced is the current version
+  const stopEditing = () => {
+    setEditedText(currentText)
     setIsEditing(false)
-    toast.success('Changes saved!')
+  }
+
+  const handleSave = async () => {
+    if (!result.extractionId) return
+    try {
+      await onSaveEdit?.(editedText)
+      setCurrentText(editedText)
+      setEnhancedText('')
+      setIsEditing(false)
+      setVersionsKey(key => key + 1)
+      toast.success('Changes saved!')
+    } catch (error) {
+      console.error('Error saving changes:', error)
+      toast.error('Failed to save changes')
+    }
+  }
+
+  const showAiError = (error: unknown, fallback: string) => {
+    const message = error instanceof Error ? error.message : fallback
+    toast.error(message)
+    setAiError({
+      message,
+      hint: error instanceof LLMAuthError
+        ? 'Check the API key and AI provider in Settings.'
+        : error instanceof LLMQuotaError
+        ? 'Wait a moment or check the plan and billing of your AI provider.'
+        : undefined
+    })
   }
 
   const handleEnhance = async () => {
@@ -51,18 +130,60 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
     }
     
     setIsEnhancing(true)
+    setAiError(null)
+    setChunks([])
     try {
-      const enhanced = await onEnhance(textToEnhance)
-      setEnhancedText(enhanced)
-      toast.success('Text enhanced successfully!')
+      const enhanced = await onEnhance(textToEnhance, setChunks, presetId || defaultPresetId)
+      setEnhancedText(enhanced.enhancedText)
+      setCurrentText(enhanced.enhancedText)
+      setChunks(enhanced.chunks)
+      setVersionsKey(key => key + 1)
+      const failed = enhanced.chunks.filter(chunk => chunk.status === 'failed').length
+      if (failed > 0) {
+        toast(`${failed} of ${enhanced.chunks.length} parts kept their original text`)
+      } else {
+        toast.success('Text enhanced successfully!')
+      }
     } catch (error) {
       console.error('Enhancement error:', error)
-      toast.error(error instanceof Error ? error.message : 'Failed to enhance text')
+      showAiError(error, 'Failed to enhance text')
     } finally {
       setIsEnhancing(false)
     }
   }
 
+  const handleExtractFields = async () => {
+    const selected = schemaId || schemas[0]?.id
+    if (!onExtractFields || !selected) return
+
+    setIsExtractingFields(true)
+    setAiError(null)
+    try {
+      const data = await onExtractFields(selected, (enhancedText || editedText).trim())
+      setStructured(data)
+      if (data.issues.length > 0) {
+        toast(`Extracted fields with ${data.issues.length} ${data.issues.length === 1 ? 'issue' : 'issues'}`)
+      } else {
+        toast.success('Fields extracted!')
+      }
+    } catch (error) {
+      console.error('Field extraction error:', error)
+      showAiError(error, 'Failed to extract fields')
+    } finally {
+      setIsExtractingFields(false)
+    }
+  }
+
+  const chunkClass = (status: EnhancementChunk['status']) => {
+    if (status === 'done') return 'bg-purple-500'
+    if (status === 'failed') return 'bg-red-500'
+    if (status === 'running') return 'bg-purple-300 animate-pulse'
+    return isDarkMode ? 'bg-gray-600' : 'bg-gray-200'
+  }
+
+  const doneChunks = chunks.filter(chunk => chunk.status === 'done' || chunk.status === 'failed').length
+  const failedChunks = chunks.filter(chunk => chunk.status === 'failed')
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-600'
     if (confidence >= 0.6) return 'text-yellow-600'
@@ -75,6 +196,9 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
     return 'bg-red-100 dark:bg-red-900/20'
   }
 
+  const textLayerPages = result.pages?.filter(page => page.method === 'text-layer').length || 0
+  const ocrPages = result.pages?.filter(page => page.method === 'ocr').length || 0
+
   return (
     <div className={`rounded-2xl shadow-lg ${isDarkMode ? 'bg-gray-800' : 'bg-white'} overflow-hidden`}>
       {/* Header */}
@@ -91,29 +215,111 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
                 </span>
               </div>
               <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                Processed in {result.processingTime}ms
+                {result.duplicateOf ? 'Reused earlier result' : `Processed in ${result.processingTime}ms`}
               </span>
+              {result.pages && result.pages.length > 0 && (
+                <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {textLayerPages} text layer / {ocrPages} OCR pages
+                </span>
+              )}
+              {result.sheets && result.sheets.length > 0 && (
+                <span
+                  title={result.sheets.map(sheet => `${sheet.name} (${sheet.range || 'empty'})`).join(', ')}
+                  className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                >
+                  {result.sheets.length} {result.sheets.length === 1 ? 'sheet' : 'sheets'}
+                </span>
+              )}
             </div>
           </div>
 
           <div className="flex items-center space-x-2">
+            {onExtractFields && schemas.length > 0 && (
+              <div className="flex items-center">
+                <select
+                  value={schemaId || schemas[0].id}
+                  onChange={(e) => setSchemaId(e.target.value)}
+                  disabled={isExtractingFields}
+                  title="Schema"
+                  className={`py-2 pl-3 pr-8 rounded-l-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    isDarkMode
+                      ? 'bg-gray-700 border-gray-600 text-gray-300'
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {schemas.map(schema => (
+                    <option key={schema.id} value={schema.id}>{schema.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleExtractFields}
+                  disabled={isExtractingFields}
+                  className={`flex items-center space-x-2 px-3 py-2 rounded-r-lg text-sm font-medium transition-colors duration-200 ${
+                    isDarkMode
+                      ? 'bg-amber-900/20 text-amber-300 hover:bg-amber-900/30'
+                      : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  <Braces className={`h-4 w-4 ${isExtractingFields ? 'animate-pulse' : ''}`} />
+                  <span>{isExtractingFields ? 'Extracting...' : 'Extract Fields'}</span>
+                </button>
+              </div>
+            )}
+
             {onEnhance && (
+              <div className="flex items-center">
+                {presets.length > 1 && (
+                  <select
+                    value={presetId || defaultPresetId || presets[0].id}
+                    onChange={(e) => setPresetId(e.target.value)}
+                    disabled={isEnhancing}
+                    title={presets.find(preset => preset.id === (presetId || defaultPresetId))?.description || 'Enhancement preset'}
+                    className={`py-2 pl-3 pr-8 rounded-l-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      isDarkMode
+                        ? 'bg-gray-700 border-gray-600 text-gray-300'
+                        : 'bg-white border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    {presets.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={handleEnhance}
+                  disabled={isEnhancing}
+                  className={`flex items-center space-x-2 px-3 py-2 ${presets.length > 1 ? 'rounded-r-lg' : 'rounded-lg'} text-sm font-medium transition-colors duration-200 ${
+                    isDarkMode
+                      ? 'bg-purple-900/20 text-purple-300 hover:bg-purple-900/30'
+                      : 'bg-purple-50 text-purple-600 hover:bg-purple-100'
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  <RefreshCw className={`h-4 w-4 ${isEnhancing ? 'animate-spin' : ''}`} />
+                  <span>
+                    {isEnhancing
+                      ? chunks.length > 1 ? `Enhancing ${doneChunks}/${chunks.length}...` : 'Enhancing...'
+                      : 'Enhance'}
+                  </span>
+                </button>
+              </div>
+            )}
+            
+            {result.extractionId && (
               <button
-                onClick={handleEnhance}
-                disabled={isEnhancing}
+                onClick={() => setShowVersions(!showVersions)}
                 className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                   isDarkMode
-                    ? 'bg-purple-900/20 text-purple-300 hover:bg-purple-900/30'
-                    : 'bg-purple-50 text-purple-600 hover:bg-purple-100'
-                } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
               >
-                <RefreshCw className={`h-4 w-4 ${isEnhancing ? 'animate-spin' : ''}`} />
-                <span>{isEnhancing ? 'Enhancing...' : 'Enhance'}</span>
+                <History className="h-4 w-4" />
+                <span>{showVersions ? 'Hide Versions' : 'Versions'}</span>
               </button>
             )}
-            
+
             <button
-              onClick={() => setIsEditing(!isEditing)}
+              onClick={() => (isEditing ? stopEditing() : startEditing())}
               className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 isDarkMode
                   ? 'bg-blue-900/20 text-blue-300 hover:bg-blue-900/30'
@@ -153,6 +359,97 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
 
       {/* Content */}
       <div className="p-6">
+        {result.warnings && result.warnings.length > 0 && (
+          <div className={`mb-4 p-4 rounded-lg border flex ${isDarkMode ? 'bg-amber-900/10 border-amber-800' : 'bg-amber-50 border-amber-200'}`}>
+            <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0" />
+            <div className="ml-3 text-sm space-y-1">
+              {result.warnings.map(warning => (
+                <p key={warning} className={isDarkMode ? 'text-amber-300' : 'text-amber-700'}>{warning}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {aiError && (
+          <div className={`mb-4 p-4 rounded-lg border flex ${isDarkMode ? 'bg-red-900/10 border-red-800' : 'bg-red-50 border-red-200'}`}>
+            <AlertTriangle className="h-5 w-5 text-red-500 flex-shrink-0" />
+            <div className="ml-3 text-sm">
+              <p className={isDarkMode ? 'text-red-300' : 'text-red-700'}>{aiError.message}</p>
+              {aiError.hint && (
+                <p className={`mt-1 ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{aiError.hint}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {structured && (
+          <div className={`mb-4 p-4 rounded-lg border ${isDarkMode ? 'bg-amber-900/10 border-amber-800' : 'bg-amber-50 border-amber-200'}`}>
+            <h4 className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+              Extracted Fields
+              <span className={`ml-2 font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {structured.attempts} {structured.attempts === 1 ? 'attempt' : 'attempts'}
+              </span>
+            </h4>
+            <pre className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'} whitespace-pre-wrap font-mono overflow-auto max-h-96`}>
+              {JSON.stringify(structured.data, null, 2)}
+            </pre>
+            {structured.issues.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {structured.issues.map(issue => (
+                  <li key={`${issue.kind}:${issue.path}`} className="text-sm">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      issue.kind === 'missing'
+                        ? isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-200 text-gray-700'
+                        : isDarkMode ? 'bg-red-900/20 text-red-300' : 'bg-red-100 text-red-700'
+                    }`}>
+                      {issue.kind}
+                    </span>
+                    <code className={`ml-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{issue.path}</code>
+                    <span className={`ml-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {chunks.length > 1 && (isEnhancing || failedChunks.length > 0) && (
+          <div className="mb-4 space-y-2">
+            <div className="flex gap-1" title={`${doneChunks} of ${chunks.length} parts processed`}>
+              {chunks.map(chunk => (
+                <div
+                  key={chunk.index}
+                  title={`Part ${chunk.index + 1}: ${chunk.error || chunk.status}`}
+                  className={`h-2 flex-1 rounded-full ${chunkClass(chunk.status)}`}
+                />
+              ))}
+            </div>
+            {!isEnhancing && failedChunks.map(chunk => (
+              <p key={chunk.index} className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                Part {chunk.index + 1} of {chunks.length} (characters {chunk.start}–{chunk.end}) kept its original text: {chunk.error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {showVersions && result.extractionId && (
+          <div className={`mb-4 p-4 rounded-lg border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <h4 className={`text-sm font-medium mb-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Versions
+            </h4>
+            <VersionHistory
+              extractionId={result.extractionId}
+              refreshKey={versionsKey}
+              onCurrentChange={(version) => {
+                setEditedText(version.text)
+                setCurrentText(version.text)
+                setEnhancedText('')
+                setIsEditing(false)
+              }}
+            />
+          </div>
+        )}
+
         {enhancedText && (
           <div className={`mb-4 p-4 rounded-lg border ${isDarkMode ? 'bg-purple-900/10 border-purple-800' : 'bg-purple-50 border-purple-200'}`}>
             <h4 className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-purple-300' : 'text-purple-700'}`}>
@@ -177,10 +474,7 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
             />
             <div className="flex justify-end space-x-2">
               <button
-                onClick={() => {
-                  setEditedText(result.extractedText)
-                  setIsEditing(false)
-                }}
+                onClick={stopEditing}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                   isDarkMode
                     ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -191,7 +485,9 @@ export function ExtractionResult({ result, onEnhance }: ExtractionResultProps) {
               </button>
               <button
                 onClick={handleSave}
-                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors duration-200"
+                disabled={!result.extractionId}
+                title={result.extractionId ? undefined : 'Edits are kept once the extraction is saved to your history'}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Check className="h-4 w-4" />
                 <span>Save</span>
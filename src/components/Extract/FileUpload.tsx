@@ -1,14 +1,34 @@
 import React, { useCallback } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { Upload, FileText, Image, AlertCircle } from 'lucide-react'
+import { Upload, FileText, Image, AlertCircle, X } from 'lucide-react'
 import { useApp } from '../../contexts/AppContext'
+import type { OCRProgress, OCRStage } from '../../lib/ocr'
+
+export interface UploadJob {
+  id: string
+  fileName: string
+  status: 'queued' | 'processing' | 'done' | 'failed' | 'cancelled'
+  progress?: OCRProgress
+}
 
 interface FileUploadProps {
   onFileSelect: (files: File[]) => void
   loading: boolean
+  jobs?: UploadJob[]
+  onCancel?: (id: string) => void
 }
 
-export function FileUpload({ onFileSelect, loading }: FileUploadProps) {
+const stageLabels: Record<OCRStage, string> = {
+  'loading': 'Loading',
+  'text-layer': 'Reading text layer',
+  'rendering': 'Rendering',
+  'preprocessing': 'Preprocessing',
+  'detecting': 'Detecting language',
+  'recognizing': 'Recognizing',
+  'done': 'Finishing'
+}
+
+export function FileUpload({ onFileSelect, loading, jobs = [], onCancel }: FileUploadProps) {
   const { isDarkMode } = useApp()
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -18,11 +38,15 @@ export function FileUpload({ onFileSelect, loading }: FileUploadProps) {
   const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff'],
+      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tif', '.tiff', '.webp', '.avif', '.heic', '.heif'],
       'application/pdf': ['.pdf'],
-      'text/*': ['.txt'],
+      'text/*': ['.txt', '.csv'],
       'application/msword': ['.doc'],
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx']
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods']
     },
     maxSize: 10 * 1024 * 1024, // 10MB
     disabled: loading
@@ -63,7 +87,7 @@ export function FileUpload({ onFileSelect, loading }: FileUploadProps) {
               }
             </p>
             <p className={`text-sm mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              Supports PDF, TXT, and images (PNG, JPG, GIF, BMP, TIFF) with OCR text extraction
+              Supports PDF, Word (DOCX, DOC), ODT, spreadsheets (XLSX, XLS, ODS, CSV), TXT, and images (PNG, JPG, GIF, BMP, multi-page TIFF, WebP, HEIC, AVIF) with OCR text extraction
             </p>
             <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
               Maximum file size: 10MB
@@ -83,6 +107,61 @@ export function FileUpload({ onFileSelect, loading }: FileUploadProps) {
         </div>
       </div>
 
+      {jobs.length > 0 && (
+        <div className={`rounded-2xl shadow-lg p-4 space-y-3 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+          {jobs.map(job => {
+            const percent = job.status === 'done' ? 100 : job.progress?.percent || 0
+            const active = job.status === 'queued' || job.status === 'processing'
+
+            return (
+              <div key={job.id} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className={`truncate font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                    {job.fileName}
+                  </span>
+                  <div className="flex items-center space-x-3 flex-shrink-0 ml-4">
+                    <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                      {job.status === 'processing' && job.progress
+                        ? `${stageLabels[job.progress.stage]}${job.progress.totalPages > 1 ? ` · page ${job.progress.page} of ${job.progress.totalPages}` : ''} · ${percent}%`
+                        : job.status === 'queued'
+                        ? 'Queued'
+                        : job.status === 'processing'
+                        ? 'Starting...'
+                        : job.status === 'done'
+                        ? 'Done'
+                        : job.status === 'failed'
+                        ? 'Failed'
+                        : 'Cancelled'}
+                    </span>
+                    {active && onCancel && (
+                      <button
+                        onClick={() => onCancel(job.id)}
+                        className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs font-medium transition-colors duration-200 ${
+                          isDarkMode
+                            ? 'bg-red-900/20 text-red-300 hover:bg-red-900/30'
+                            : 'bg-red-50 text-red-600 hover:bg-red-100'
+                        }`}
+                      >
+                        <X className="h-3 w-3" />
+                        <span>Cancel</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className={`h-2 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                  <div
+                    className={`h-full rounded-full transition-all duration-300 ${
+                      job.status === 'failed' || job.status === 'cancelled' ? 'bg-red-500' : 'bg-blue-600'
+                    }`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
       {fileRejections.length > 0 && (
         <div className={`rounded-lg p-4 ${isDarkMode ? 'bg-red-900/20 border border-red-800' : 'bg-red-50 border border-red-200'}`}>
           <div className="flex">
@@ -0,0 +1,75 @@
+import { Languages } from 'lucide-react'
+import { useApp } from '../../contexts/AppContext'
+import { OCR_LANGUAGES, OCRLanguageSelection } from '../../lib/ocr'
+
+interface LanguageSelectorProps {
+  value: OCRLanguageSelection
+  onChange: (languages: OCRLanguageSelection) => void
+  disabled?: boolean
+}
+
+export function LanguageSelector({ value, onChange, disabled }: LanguageSelectorProps) {
+  const { isDarkMode } = useApp()
+  const isAuto = value === 'auto'
+
+  const toggleLanguage = (code: string) => {
+    const current = isAuto ? [] : value
+    const next = current.includes(code)
+      ? current.filter(language => language !== code)
+      : [...current, code]
+
+    // Keep at least one language selected
+    if (next.length > 0) {
+      onChange(next)
+    }
+  }
+
+  const chipClass = (selected: boolean) => `px-3 py-1 rounded-full text-sm font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+    selected
+      ? 'bg-blue-600 text-white hover:bg-blue-700'
+      : isDarkMode
+      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+  }`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Languages className={`h-4 w-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+          <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            OCR Languages
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(isAuto ? ['eng'] : 'auto')}
+          disabled={disabled}
+          className={chipClass(isAuto)}
+        >
+          Auto-detect
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {OCR_LANGUAGES.map(language => (
+          <button
+            key={language.code}
+            type="button"
+            onClick={() => toggleLanguage(language.code)}
+            disabled={disabled || isAuto}
+            className={chipClass(!isAuto && value.includes(language.code))}
+          >
+            {language.label}
+          </button>
+        ))}
+      </div>
+
+      {isAuto && (
+        <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          The script and orientation of each page are detected first and the matching languages are loaded automatically.
+        </p>
+      )}
+    </div>
+  )
+}
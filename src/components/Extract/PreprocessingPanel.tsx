@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react'
+import { SlidersHorizontal, Eye } from 'lucide-react'
+import { useApp } from '../../contexts/AppContext'
+import { hasPreprocessing, preprocessImage, PREPROCESS_STEPS, PreprocessOptions } from '../../lib/preprocess'
+
+interface PreprocessingPanelProps {
+  value: PreprocessOptions
+  onChange: (options: PreprocessOptions) => void
+  disabled?: boolean
+}
+
+export function PreprocessingPanel({ value, onChange, disabled }: PreprocessingPanelProps) {
+  const { isDarkMode } = useApp()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [sample, setSample] = useState<File | null>(null)
+  const [originalUrl, setOriginalUrl] = useState('')
+  const [processedUrl, setProcessedUrl] = useState('')
+  const [previewing, setPreviewing] = useState(false)
+
+  useEffect(() => {
+    if (!sample) return
+    const url = URL.createObjectURL(sample)
+    setOriginalUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [sample])
+
+  useEffect(() => {
+    if (!sample) return
+    if (!hasPreprocessing(value)) {
+      setProcessedUrl('')
+      return
+    }
+
+    let cancelled = false
+    setPreviewing(true)
+    preprocessImage(sample, value)
+      .then(({ canvas }) => {
+        if (!cancelled) setProcessedUrl(canvas.toDataURL('image/png'))
+      })
+      .catch(error => console.error('Preview error:', error))
+      .finally(() => {
+        if (!cancelled) setPreviewing(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sample, value])
+
+  const toggleStep = (key: keyof PreprocessOptions) => {
+    onChange({ ...value, [key]: !value[key] })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <SlidersHorizontal className={`h-4 w-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+          <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            Image Preprocessing
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className={`flex items-center space-x-2 px-3 py-1 rounded-lg text-sm font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isDarkMode
+              ? 'bg-blue-900/20 text-blue-300 hover:bg-blue-900/30'
+              : 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+          }`}
+        >
+          <Eye className="h-4 w-4" />
+          <span>{sample ? 'Change preview image' : 'Preview on an image'}</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => setSample(e.target.files?.[0] || null)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {PREPROCESS_STEPS.map(step => (
+          <label
+            key={step.key}
+            title={step.description}
+            className={`flex items-center space-x-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'} ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+          >
+            <input
+              type="checkbox"
+              checked={value[step.key]}
+              onChange={() => toggleStep(step.key)}
+              disabled={disabled}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>{step.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {sample && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className={`text-xs mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Original</p>
+            <img src={originalUrl} alt="Original" className="w-full max-h-64 object-contain rounded-lg border border-gray-300" />
+          </div>
+          <div>
+            <p className={`text-xs mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {previewing ? 'Processing...' : 'Preprocessed'}
+            </p>
+            <img
+              src={processedUrl || originalUrl}
+              alt="Preprocessed"
+              className={`w-full max-h-64 object-contain rounded-lg border border-gray-300 ${previewing ? 'opacity-50' : ''}`}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,40 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import { useAuth } from '../../contexts/AuthContext'
 import { useApp } from '../../contexts/AppContext'
-import { FileText, BarChart3, History, Settings, LogOut, Moon, Sun } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { FileText, BarChart3, History, Settings, LogOut, Moon, Sun, Gauge } from 'lucide-react'
+
+interface QuotaStatus {
+  plan_name: string
+  requests_per_minute: number
+  daily_pages: number
+  pages_used: number
+  daily_bytes: number
+  bytes_used: number
+  max_file_bytes: number
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`
 
 export function Navbar() {
   const { user, signOut } = useAuth()
   const { isDarkMode, toggleDarkMode } = useApp()
   const location = useLocation()
+  const [quota, setQuota] = useState<QuotaStatus | null>(null)
+
+  // Refreshed on navigation so usage from the API shows up without a reload
+  useEffect(() => {
+    if (!user) return
+
+    supabase.rpc('get_quota_status').then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching quota:', error)
+        return
+      }
+      setQuota(data)
+    })
+  }, [user, location.pathname])
 
   const navigation = [
     { name: 'Extract', href: '/extract', icon: FileText },
@@ -54,6 +81,20 @@ export function Navbar() {
           </div>
 
           <div className="flex items-center space-x-4">
+            {quota && (
+              <div
+                title={`${quota.plan_name} plan: ${formatMegabytes(quota.daily_bytes - quota.bytes_used)} of ${formatMegabytes(quota.daily_bytes)} upload left today, ${quota.requests_per_minute} requests per minute, files up to ${formatMegabytes(quota.max_file_bytes)}`}
+                className={`flex items-center space-x-1 text-sm ${
+                  quota.pages_used >= quota.daily_pages
+                    ? 'text-red-600'
+                    : isDarkMode ? 'text-gray-300' : 'text-gray-500'
+                }`}
+              >
+                <Gauge className="h-4 w-4" />
+                <span>{Math.max(0, quota.daily_pages - quota.pages_used)}/{quota.daily_pages} pages left</span>
+              </div>
+            )}
+
             <button
               onClick={toggleDarkMode}
               className={`p-2 rounded-md transition-colors duration-200 ${
@@ -0,0 +1,197 @@
+import { useState } from 'react'
+import { Cpu, Save, PlugZap, RotateCcw } from 'lucide-react'
+import { useApp } from '../../contexts/AppContext'
+import { AIProviderConfig, DEFAULT_AI_PROVIDER, OpenAIService } from '../../lib/openai'
+import toast from 'react-hot-toast'
+
+export function AIProviderSettings() {
+  const { openaiApiKey, aiProvider, setAiProvider, isDarkMode } = useApp()
+  const [config, setConfig] = useState<AIProviderConfig>(aiProvider)
+  const [testing, setTesting] = useState(false)
+
+  const update = (changes: Partial<AIProviderConfig>) => {
+    setConfig(prev => ({ ...prev, ...changes }))
+  }
+
+  const validate = (): string | null => {
+    if (!/^https?:\/\/\S+$/.test(config.baseUrl)) return 'Enter a valid http(s) base URL'
+    if (!config.enhanceModel.trim() || !config.visionModel.trim()) return 'Enter both model names'
+    if (!(config.temperature >= 0 && config.temperature <= 2)) return 'Temperature must be between 0 and 2'
+    if (!(Number.isInteger(config.maxTokens) && config.maxTokens >= 256)) return 'Max tokens must be a whole number of at least 256'
+    return null
+  }
+
+  const handleSave = () => {
+    const error = validate()
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setAiProvider({
+      ...config,
+      baseUrl: config.baseUrl.trim().replace(/\/+$/, ''),
+      apiVersion: config.apiVersion.trim(),
+      enhanceModel: config.enhanceModel.trim(),
+      visionModel: config.visionModel.trim()
+    })
+    toast.success('AI provider saved successfully!')
+  }
+
+  // Tests the values in the form, so they can be checked before saving
+  const handleTest = async () => {
+    const error = validate()
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setTesting(true)
+    try {
+      const models = await new OpenAIService(openaiApiKey, config).testConnection()
+      toast.success(`Connected: ${models.join(', ')} responded`)
+    } catch (error) {
+      console.error('Connection test failed:', error)
+      toast.error(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const labelClass = `block text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`
+  const inputClass = `mt-1 block w-full px-3 py-3 border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`
+
+  return (
+    <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className="flex items-center space-x-3 mb-4">
+        <Cpu className={`h-5 w-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+        <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          AI Provider
+        </h2>
+      </div>
+
+      <div className="space-y-4">
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Text enhancement and field extraction work with any OpenAI-compatible endpoint: OpenAI,
+          a company gateway, Azure OpenAI, or a local llama.cpp or Ollama server. The API key above
+          is sent to this endpoint; local servers usually need none.
+        </p>
+
+        <div>
+          <label className={labelClass}>Base URL</label>
+          <input
+            type="url"
+            value={config.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+            placeholder="https://api.openai.com/v1"
+            className={inputClass}
+          />
+          <p className={`mt-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Everything before <code>/chat/completions</code>, e.g. <code>http://localhost:11434/v1</code> for Ollama.
+          </p>
+        </div>
+
+        <div>
+          <label className={labelClass}>API Version (Azure OpenAI only)</label>
+          <input
+            type="text"
+            value={config.apiVersion}
+            onChange={(e) => update({ apiVersion: e.target.value })}
+            placeholder="2024-10-21"
+            className={inputClass}
+          />
+          <p className={`mt-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            When set, requests carry <code>api-version</code> and send the key in an <code>api-key</code> header.
+            Use the deployment URL as the base URL.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Enhancement Model</label>
+            <input
+              type="text"
+              value={config.enhanceModel}
+              onChange={(e) => update({ enhanceModel: e.target.value })}
+              placeholder={DEFAULT_AI_PROVIDER.enhanceModel}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Vision Model</label>
+            <input
+              type="text"
+              value={config.visionModel}
+              onChange={(e) => update({ visionModel: e.target.value })}
+              placeholder={DEFAULT_AI_PROVIDER.visionModel}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Temperature</label>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={config.temperature}
+              onChange={(e) => update({ temperature: e.target.valueAsNumber })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Max Tokens</label>
+            <input
+              type="number"
+              min={256}
+              step={1}
+              value={config.maxTokens}
+              onChange={(e) => update({ maxTokens: e.target.valueAsNumber })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          The enhancement model also extracts schema fields, which needs JSON mode. Field extraction always runs
+          at temperature 0. Long documents are enhanced in parts sized to fit the max tokens.
+        </p>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleSave}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-200"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save Provider</span>
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={testing}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+              isDarkMode
+                ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            <PlugZap className={`h-4 w-4 ${testing ? 'animate-pulse' : ''}`} />
+            <span>{testing ? 'Testing...' : 'Test Connection'}</span>
+          </button>
+          <button
+            onClick={() => setConfig(DEFAULT_AI_PROVIDER)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+              isDarkMode
+                ? 'text-gray-400 hover:text-gray-300'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Reset to OpenAI</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
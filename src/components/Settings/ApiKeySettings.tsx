@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from 'react'
+import { KeyRound, Plus, Copy, RotateCw, Ban } from 'lucide-react'
+import { format } from 'date-fns'
+import { useApp } from '../../contexts/AppContext'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import toast from 'react-hot-toast'
+
+const API_KEY_SCOPES = [
+  { value: 'read', label: 'Read', description: 'List extractions and analytics, poll jobs' },
+  { value: 'extract', label: 'Extract', description: 'Submit files for extraction' }
+] as const
+
+type ApiKeyScope = typeof API_KEY_SCOPES[number]['value']
+
+interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+// Created and rotated server side, so the stored hash always belongs to a generated key
+const invokeApiKeys = async (path: string, body?: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke<{ data: ApiKey & { key: string } }>(path, { body })
+
+  if (error) {
+    const reason = await error.context?.json?.().then((response: { error?: string }) => response.error).catch(() => null)
+    throw new Error(reason || error.message)
+  }
+  return data!.data
+}
+
+export function ApiKeySettings() {
+  const { isDarkMode } = useApp()
+  const { user } = useAuth()
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read', 'extract'])
+  const [newKey, setNewKey] = useState<{ id: string; key: string } | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchKeys = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select('id, name, prefix, scopes, last_used_at, revoked_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setKeys(data || [])
+    } catch (error) {
+      console.error('Error fetching API keys:', error)
+      toast.error('Failed to load API keys')
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchKeys()
+  }, [fetchKeys])
+
+  const createKey = async () => {
+    if (!user) return
+
+    setSaving(true)
+    try {
+      const { key, ...data } = await invokeApiKeys('api-keys', { name: name.trim(), scopes })
+
+      setKeys(prev => [data, ...prev])
+      setNewKey({ id: data.id, key })
+      setName('')
+      toast.success('API key created')
+    } catch (error) {
+      console.error('Error creating API key:', error)
+      toast.error(`Failed to create API key: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const rotateKey = async (apiKey: ApiKey) => {
+    try {
+      // Same name and scopes, new secret: the old value stops working immediately
+      const { key, ...data } = await invokeApiKeys(`api-keys/${apiKey.id}/rotate`)
+
+      setKeys(prev => prev.map(item => (item.id === apiKey.id ? data : item)))
+      setNewKey({ id: apiKey.id, key })
+      toast.success('API key rotated')
+    } catch (error) {
+      console.error('Error rotating API key:', error)
+      toast.error(`Failed to rotate API key: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const revokeKey = async (id: string) => {
+    try {
+      const revokedAt = new Date().toISOString()
+      const { error } = await supabase
+        .from('api_keys')
+        .update({ revoked_at: revokedAt })
+        .eq('id', id)
+
+      if (error) throw error
+
+      setKeys(prev => prev.map(item => (item.id === id ? { ...item, revoked_at: revokedAt } : item)))
+      if (newKey?.id === id) setNewKey(null)
+      toast.success('API key revoked')
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      toast.error('Failed to revoke API key')
+    }
+  }
+
+  const copyKey = async (key: string) => {
+    await navigator.clipboard.writeText(key)
+    toast.success('API key copied')
+  }
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => (prev.includes(scope) ? prev.filter(item => item !== scope) : [...prev, scope]))
+  }
+
+  return (
+    <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className="flex items-center space-x-3 mb-4">
+        <KeyRound className={`h-5 w-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+        <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          API Keys
+        </h2>
+      </div>
+
+      <div className="space-y-6">
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Use API keys for scripts and integrations. Send the key in the <code>x-api-key</code> header
+          instead of a session token; keys don't expire until you revoke them.
+        </p>
+
+        {/* New key */}
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Key name, e.g. n8n production"
+            className={`block w-full px-3 py-3 border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isDarkMode
+                ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+            }`}
+          />
+          <div className="flex flex-wrap gap-4">
+            {API_KEY_SCOPES.map(scope => (
+              <label
+                key={scope.value}
+                title={scope.description}
+                className={`flex items-center space-x-2 text-sm cursor-pointer ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope.value)}
+                  onChange={() => toggleScope(scope.value)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{scope.label}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={createKey}
+            disabled={!name.trim() || scopes.length === 0 || saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Create Key</span>
+          </button>
+        </div>
+
+        {newKey && (
+          <div className={`p-4 rounded-lg border ${isDarkMode ? 'bg-yellow-900/20 border-yellow-800' : 'bg-yellow-50 border-yellow-200'}`}>
+            <p className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-yellow-300' : 'text-yellow-800'}`}>
+              Copy this key now. It won't be shown again.
+            </p>
+            <div className="flex items-center space-x-2">
+              <code className={`text-xs break-all ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>{newKey.key}</code>
+              <button
+                onClick={() => copyKey(newKey.key)}
+                title="Copy API key"
+                className={isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Keys */}
+        {keys.length > 0 && (
+          <ul className="space-y-3">
+            {keys.map(apiKey => (
+              <li
+                key={apiKey.id}
+                className={`flex items-center justify-between p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'} ${apiKey.revoked_at ? 'opacity-60' : ''}`}
+              >
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {apiKey.name}
+                    <code className={`ml-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{apiKey.prefix}…</code>
+                  </p>
+                  <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {apiKey.scopes.join(', ')} · created {format(new Date(apiKey.created_at), 'MMM d, yyyy')} · {
+                      apiKey.revoked_at
+                        ? `revoked ${format(new Date(apiKey.revoked_at), 'MMM d, yyyy')}`
+                        : apiKey.last_used_at
+                          ? `last used ${format(new Date(apiKey.last_used_at), 'MMM d, yyyy HH:mm')}`
+                          : 'never used'
+                    }
+                  </p>
+                </div>
+                {!apiKey.revoked_at && (
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => rotateKey(apiKey)}
+                      title="Rotate key"
+                      className={`p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-blue-400' : 'text-gray-500 hover:text-blue-600'}`}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => revokeKey(apiKey.id)}
+                      title="Revoke key"
+                      className={`p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}
+                    >
+                      <Ban className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
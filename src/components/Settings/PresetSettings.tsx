@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Wand2, Plus, Trash2, ChevronDown, ChevronUp, Check, Share2 } from 'lucide-react'
+import { useApp } from '../../contexts/AppContext'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import { DEFAULT_ENHANCE_INSTRUCTIONS } from '../../lib/openai'
+import { BUILT_IN_PRESETS, checkTemplate, EnhancementPreset, fetchPresets, PROMPT_VARIABLES } from '../../lib/presets'
+import toast from 'react-hot-toast'
+
+export function PresetSettings() {
+  const { defaultPresetId, setDefaultPresetId, isDarkMode } = useApp()
+  const { user } = useAuth()
+  const [presets, setPresets] = useState<EnhancementPreset[]>(BUILT_IN_PRESETS)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [instructions, setInstructions] = useState(DEFAULT_ENHANCE_INSTRUCTIONS)
+  const [isShared, setIsShared] = useState(false)
+  const [templateError, setTemplateError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadPresets = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setPresets(await fetchPresets())
+    } catch (error) {
+      console.error('Error fetching presets:', error)
+      toast.error('Failed to load presets')
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadPresets()
+  }, [loadPresets])
+
+  const addPreset = async () => {
+    if (!user) return
+    try {
+      checkTemplate(instructions)
+      setTemplateError(null)
+    } catch (error) {
+      setTemplateError((error as Error).message)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('enhancement_presets')
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          description: description.trim() || null,
+          instructions: instructions.trim(),
+          is_shared: isShared
+        })
+
+      if (error) throw error
+
+      await loadPresets()
+      setName('')
+      setDescription('')
+      setIsShared(false)
+      toast.success('Preset saved')
+    } catch (error) {
+      console.error('Error saving preset:', error)
+      toast.error('Failed to save preset')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleShared = async (preset: EnhancementPreset) => {
+    try {
+      const { error } = await supabase
+        .from('enhancement_presets')
+        .update({ is_shared: !preset.is_shared })
+        .eq('id', preset.id)
+
+      if (error) throw error
+      setPresets(prev => prev.map(item => (item.id === preset.id ? { ...item, is_shared: !preset.is_shared } : item)))
+      toast.success(preset.is_shared ? 'Preset is private again' : 'Preset shared')
+    } catch (error) {
+      console.error('Error sharing preset:', error)
+      toast.error('Failed to update preset')
+    }
+  }
+
+  const deletePreset = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('enhancement_presets')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      setPresets(prev => prev.filter(preset => preset.id !== id))
+      toast.success('Preset deleted')
+    } catch (error) {
+      console.error('Error deleting preset:', error)
+      toast.error('Failed to delete preset')
+    }
+  }
+
+  const makeDefault = (preset: EnhancementPreset) => {
+    setDefaultPresetId(preset.id)
+    toast.success(`${preset.name} is now the default preset`)
+  }
+
+  const inputClass = `block w-full px-3 py-3 border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`
+  const iconButtonClass = `p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}`
+
+  // A default that was deleted or unshared falls back to the standard preset
+  const effectiveDefault = presets.some(preset => preset.id === defaultPresetId) ? defaultPresetId : BUILT_IN_PRESETS[0].id
+
+  return (
+    <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className="flex items-center space-x-3 mb-4">
+        <Wand2 className={`h-5 w-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+        <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Enhancement Presets
+        </h2>
+      </div>
+
+      <div className="space-y-6">
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          A preset holds the instructions the model follows when enhancing text. Pick one per result on the
+          Extract page; the default is preselected. Shared presets can be used by everyone signed in to this app.
+        </p>
+
+        {/* New preset */}
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Invoices: keep totals aligned"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className={inputClass}
+          />
+          <textarea
+            value={instructions}
+            onChange={(e) => {
+              setInstructions(e.target.value)
+              setTemplateError(null)
+            }}
+            rows={10}
+            spellCheck={false}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          <ul className={`text-xs space-y-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {Object.entries(PROMPT_VARIABLES).map(([variable, meaning]) => (
+              <li key={variable}>
+                <code className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>{`{{${variable}}}`}</code> {meaning}
+              </li>
+            ))}
+          </ul>
+          {templateError && (
+            <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{templateError}</p>
+          )}
+          <label className={`flex items-center space-x-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={(e) => setIsShared(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Share with everyone</span>
+          </label>
+          <button
+            onClick={addPreset}
+            disabled={!name.trim() || saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Save Preset</span>
+          </button>
+        </div>
+
+        {/* Available presets */}
+        <ul className="space-y-3">
+          {presets.map(preset => {
+            const own = preset.user_id !== null && preset.user_id === user?.id
+            return (
+              <li key={preset.id} className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                      {preset.name}
+                    </p>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {preset.user_id === null ? 'Built in' : own ? (preset.is_shared ? 'Yours, shared' : 'Yours') : 'Shared with you'}
+                      {preset.description && ` · ${preset.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    {preset.id === effectiveDefault ? (
+                      <span className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${
+                        isDarkMode ? 'bg-green-900/20 text-green-300' : 'bg-green-100 text-green-700'
+                      }`}>
+                        <Check className="h-3 w-3" />
+                        <span>Default</span>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => makeDefault(preset)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+                          isDarkMode
+                            ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                            : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                        }`}
+                      >
+                        Make default
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setExpanded(expanded === preset.id ? null : preset.id)}
+                      title={expanded === preset.id ? 'Hide instructions' : 'Show instructions'}
+                      className={iconButtonClass}
+                    >
+                      {expanded === preset.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </button>
+                    {own && (
+                      <>
+                        <button
+                          onClick={() => toggleShared(preset)}
+                          title={preset.is_shared ? 'Stop sharing' : 'Share with everyone'}
+                          className={`p-1 rounded ${
+                            preset.is_shared
+                              ? 'text-blue-500 hover:text-blue-400'
+                              : isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'
+                          }`}
+                        >
+                          <Share2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => deletePreset(preset.id)}
+                          title="Delete preset"
+                          className={`p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {expanded === preset.id && (
+                  <pre className={`mt-3 text-xs whitespace-pre-wrap ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {preset.instructions}
+                  </pre>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Braces, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react'
+import { useApp } from '../../contexts/AppContext'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import { compileSchema, INVOICE_SCHEMA, JsonSchema, SchemaError } from '../../lib/schemas'
+import toast from 'react-hot-toast'
+
+export interface ExtractionSchema {
+  id: string
+  name: string
+  description: string | null
+  schema: JsonSchema
+  created_at: string
+}
+
+export function SchemaSettings() {
+  const { isDarkMode } = useApp()
+  const { user } = useAuth()
+  const [schemas, setSchemas] = useState<ExtractionSchema[]>([])
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [schemaText, setSchemaText] = useState(JSON.stringify(INVOICE_SCHEMA, null, 2))
+  const [schemaError, setSchemaError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchSchemas = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('extraction_schemas')
+        .select('id, name, description, schema, created_at')
+        .eq('user_id', user.id)
+        .order('name')
+
+      if (error) throw error
+      setSchemas(data || [])
+    } catch (error) {
+      console.error('Error fetching schemas:', error)
+      toast.error('Failed to load schemas')
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchSchemas()
+  }, [fetchSchemas])
+
+  // Checked with the same compiler the extraction uses, so a saved schema always compiles
+  const parseSchema = (): JsonSchema | null => {
+    try {
+      const schema = JSON.parse(schemaText)
+      if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        throw new SchemaError('The schema must be a JSON object')
+      }
+      compileSchema(schema)
+      setSchemaError(null)
+      return schema
+    } catch (error) {
+      setSchemaError(error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message)
+      return null
+    }
+  }
+
+  const addSchema = async () => {
+    if (!user) return
+    const schema = parseSchema()
+    if (!schema) return
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase
+        .from('extraction_schemas')
+        .insert({ user_id: user.id, name: name.trim(), description: description.trim() || null, schema })
+        .select('id, name, description, schema, created_at')
+        .single()
+
+      if (error) throw error
+
+      setSchemas(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)))
+      setName('')
+      setDescription('')
+      toast.success('Schema saved')
+    } catch (error) {
+      console.error('Error saving schema:', error)
+      toast.error('Failed to save schema')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteSchema = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('extraction_schemas')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      setSchemas(prev => prev.filter(schema => schema.id !== id))
+      toast.success('Schema deleted')
+    } catch (error) {
+      console.error('Error deleting schema:', error)
+      toast.error('Failed to delete schema')
+    }
+  }
+
+  const inputClass = `block w-full px-3 py-3 border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`
+
+  return (
+    <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className="flex items-center space-x-3 mb-4">
+        <Braces className={`h-5 w-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+        <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Extraction Schemas
+        </h2>
+      </div>
+
+      <div className="space-y-6">
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          A JSON Schema describes the fields to pull out of a document, such as an invoice's number,
+          dates and totals. The output is validated against it; fields the document doesn't contain
+          are reported as missing instead of being guessed.
+        </p>
+
+        {/* New schema */}
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Invoice"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className={inputClass}
+          />
+          <textarea
+            value={schemaText}
+            onChange={(e) => {
+              setSchemaText(e.target.value)
+              setSchemaError(null)
+            }}
+            rows={12}
+            spellCheck={false}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          {schemaError && (
+            <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{schemaError}</p>
+          )}
+          <button
+            onClick={addSchema}
+            disabled={!name.trim() || saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Save Schema</span>
+          </button>
+        </div>
+
+        {/* Saved schemas */}
+        {schemas.length > 0 && (
+          <ul className="space-y-3">
+            {schemas.map(schema => (
+              <li key={schema.id} className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                      {schema.name}
+                    </p>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {schema.description && `${schema.description} · `}
+                      {Object.keys((schema.schema.properties as object) || {}).length} fields
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => setExpanded(expanded === schema.id ? null : schema.id)}
+                      title={expanded === schema.id ? 'Hide schema' : 'Show schema'}
+                      className={`p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      {expanded === schema.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => deleteSchema(schema.id)}
+                      title="Delete schema"
+                      className={`p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                {expanded === schema.id && (
+                  <pre className={`mt-3 text-xs overflow-x-auto ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {JSON.stringify(schema.schema, null, 2)}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Webhook, Plus, Trash2, Copy, RefreshCw } from 'lucide-react'
+import { format } from 'date-fns'
+import { useApp } from '../../contexts/AppContext'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import toast from 'react-hot-toast'
+
+const WEBHOOK_EVENTS = ['extraction.succeeded', 'extraction.failed'] as const
+
+interface WebhookEndpoint {
+  id: string
+  url: string
+  description: string
+  secret: string
+  events: string[]
+  active: boolean
+  created_at: string
+}
+
+interface WebhookDelivery {
+  id: string
+  endpoint_id: string
+  event: string
+  status: 'pending' | 'delivering' | 'succeeded' | 'failed'
+  attempts: number
+  response_status: number | null
+  last_error: string | null
+  next_attempt_at: string | null
+  created_at: string
+}
+
+export function WebhookSettings() {
+  const { isDarkMode } = useApp()
+  const { user } = useAuth()
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<string[]>([...WEBHOOK_EVENTS])
+  const [revealed, setRevealed] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchWebhooks = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const [endpointsResult, deliveriesResult] = await Promise.all([
+        supabase
+          .from('webhook_endpoints')
+          .select('id, url, description, secret, events, active, created_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('webhook_deliveries')
+          .select('id, endpoint_id, event, status, attempts, response_status, last_error, next_attempt_at, created_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(25)
+      ])
+
+      if (endpointsResult.error) throw endpointsResult.error
+      if (deliveriesResult.error) throw deliveriesResult.error
+      setEndpoints(endpointsResult.data || [])
+      setDeliveries(deliveriesResult.data || [])
+    } catch (error) {
+      console.error('Error fetching webhooks:', error)
+      toast.error('Failed to load webhooks')
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [fetchWebhooks])
+
+  const addEndpoint = async () => {
+    if (!user) return
+    if (!/^https:\/\/\S+$/.test(url)) {
+      toast.error('Enter a valid https URL')
+      return
+    }
+
+    setSaving(true)
+    try {
+      // Created server side, where the URL is checked against private and internal hosts
+      const { data, error } = await supabase.functions.invoke<{ data: WebhookEndpoint }>('webhook-endpoints', {
+        body: { url, description, events }
+      })
+
+      if (error) {
+        const reason = await error.context?.json?.().then((body: { error?: string }) => body.error).catch(() => null)
+        throw new Error(reason || error.message)
+      }
+
+      setEndpoints(prev => [data!.data, ...prev])
+      setRevealed(data!.data.id)
+      setUrl('')
+      setDescription('')
+      toast.success('Webhook endpoint added')
+    } catch (error) {
+      console.error('Error adding webhook:', error)
+      toast.error(`Failed to add webhook endpoint: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleEndpoint = async (endpoint: WebhookEndpoint) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .update({ active: !endpoint.active })
+        .eq('id', endpoint.id)
+
+      if (error) throw error
+      setEndpoints(prev => prev.map(item => (item.id === endpoint.id ? { ...item, active: !item.active } : item)))
+    } catch (error) {
+      console.error('Error updating webhook:', error)
+      toast.error('Failed to update webhook endpoint')
+    }
+  }
+
+  const deleteEndpoint = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      setEndpoints(prev => prev.filter(endpoint => endpoint.id !== id))
+      setDeliveries(prev => prev.filter(delivery => delivery.endpoint_id !== id))
+      toast.success('Webhook endpoint deleted')
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+      toast.error('Failed to delete webhook endpoint')
+    }
+  }
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret)
+    toast.success('Signing secret copied')
+  }
+
+  const toggleEvent = (event: string) => {
+    setEvents(prev => (prev.includes(event) ? prev.filter(item => item !== event) : [...prev, event]))
+  }
+
+  const statusClass = (status: WebhookDelivery['status']) => {
+    if (status === 'succeeded') return isDarkMode ? 'bg-green-900/20 text-green-300' : 'bg-green-100 text-green-700'
+    if (status === 'pending' || status === 'delivering') return isDarkMode ? 'bg-yellow-900/20 text-yellow-300' : 'bg-yellow-100 text-yellow-700'
+    return isDarkMode ? 'bg-red-900/20 text-red-300' : 'bg-red-100 text-red-700'
+  }
+
+  const endpointUrl = (id: string) => endpoints.find(endpoint => endpoint.id === id)?.url || 'Deleted endpoint'
+
+  const inputClass = `block w-full px-3 py-3 border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`
+
+  return (
+    <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className="flex items-center space-x-3 mb-4">
+        <Webhook className={`h-5 w-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+        <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Webhooks
+        </h2>
+      </div>
+
+      <div className="space-y-6">
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Get a POST when an API extraction finishes or fails. Each request carries an
+          {' '}<code>X-TextExtract-Signature</code> header: an HMAC-SHA256 of
+          {' '}<code>timestamp.body</code> using the endpoint's signing secret, with the timestamp in
+          {' '}<code>X-TextExtract-Timestamp</code>. Failed deliveries are retried with backoff for about 15 hours.
+          Endpoints must be public https URLs; redirects are not followed.
+        </p>
+
+        {/* New endpoint */}
+        <div className="space-y-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhooks/textextract"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className={inputClass}
+          />
+          <div className="flex flex-wrap gap-4">
+            {WEBHOOK_EVENTS.map(event => (
+              <label key={event} className={`flex items-center space-x-2 text-sm cursor-pointer ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{event}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={addEndpoint}
+            disabled={!url || events.length === 0 || saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Endpoint</span>
+          </button>
+        </div>
+
+        {/* Endpoints */}
+        {endpoints.length > 0 && (
+          <ul className="space-y-3">
+            {endpoints.map(endpoint => (
+              <li key={endpoint.id} className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                      {endpoint.url}
+                    </p>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {endpoint.description && `${endpoint.description} · `}{endpoint.events.join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => toggleEndpoint(endpoint)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        endpoint.active
+                          ? isDarkMode ? 'bg-green-900/20 text-green-300' : 'bg-green-100 text-green-700'
+                          : isDarkMode ? 'bg-gray-600 text-gray-300' : 'bg-gray-200 text-gray-600'
+                      }`}
+                    >
+                      {endpoint.active ? 'Active' : 'Paused'}
+                    </button>
+                    <button
+                      onClick={() => deleteEndpoint(endpoint.id)}
+                      title="Delete endpoint"
+                      className={`p-1 rounded ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 mt-3">
+                  <code className={`text-xs truncate ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {revealed === endpoint.id ? endpoint.secret : `whsec_${'•'.repeat(20)}`}
+                  </code>
+                  <button
+                    onClick={() => setRevealed(revealed === endpoint.id ? null : endpoint.id)}
+                    className={`text-xs ${isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {revealed === endpoint.id ? 'Hide' : 'Show'}
+                  </button>
+                  <button
+                    onClick={() => copySecret(endpoint.secret)}
+                    title="Copy signing secret"
+                    className={isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}
+                  >
+                    <Copy className="h-3 w-3" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Delivery log */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Recent Deliveries
+            </h3>
+            <button
+              onClick={fetchWebhooks}
+              title="Refresh"
+              className={isDarkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>No deliveries yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                    <th className="text-left font-medium py-2 pr-4">Time</th>
+                    <th className="text-left font-medium py-2 pr-4">Event</th>
+                    <th className="text-left font-medium py-2 pr-4">Endpoint</th>
+                    <th className="text-left font-medium py-2 pr-4">Status</th>
+                    <th className="text-left font-medium py-2">Attempts</th>
+                  </tr>
+                </thead>
+                <tbody className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+                  {deliveries.map(delivery => (
+                    <tr key={delivery.id} title={delivery.last_error || undefined}>
+                      <td className="py-2 pr-4 whitespace-nowrap">{format(new Date(delivery.created_at), 'MMM d, HH:mm:ss')}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{delivery.event}</td>
+                      <td className="py-2 pr-4 max-w-xs truncate">{endpointUrl(delivery.endpoint_id)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClass(delivery.status)}`}>
+                          {delivery.status}{delivery.response_status ? ` · ${delivery.response_status}` : ''}
+                        </span>
+                        {delivery.status === 'pending' && delivery.next_attempt_at && (
+                          <span className={`ml-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                            retry {format(new Date(delivery.next_attempt_at), 'HH:mm')}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2">{delivery.attempts}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { GitCompare, Check } from 'lucide-react'
+import { format } from 'date-fns'
+import { useApp } from '../../contexts/AppContext'
+import { supabase } from '../../lib/supabase'
+import { diffVersions, ExtractionVersion, fetchVersions, setCurrentVersion, VERSION_KIND_LABELS } from '../../lib/versions'
+import toast from 'react-hot-toast'
+
+interface VersionHistoryProps {
+  extractionId: string
+  // Bump to reload after a version was added elsewhere
+  refreshKey?: number
+  onCurrentChange?: (version: ExtractionVersion) => void
+}
+
+// Short description of what produced a version, with everything else in the tooltip
+const describeSettings = (version: ExtractionVersion) => {
+  const settings = version.settings && typeof version.settings === 'object' && !Array.isArray(version.settings)
+    ? version.settings
+    : {}
+  const entries = Object.entries(settings).filter(([, value]) => value !== null && value !== undefined)
+  const summary = settings.model ?? settings.provider ?? settings.engine
+  return {
+    summary: typeof summary === 'string' ? summary : '',
+    details: entries.map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`).join('\n')
+  }
+}
+
+export function VersionHistory({ extractionId, refreshKey = 0, onCurrentChange }: VersionHistoryProps) {
+  const { isDarkMode } = useApp()
+  const [versions, setVersions] = useState<ExtractionVersion[]>([])
+  const [currentId, setCurrentId] = useState<string | null>(null)
+  const [beforeId, setBeforeId] = useState('')
+  const [afterId, setAfterId] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [loaded, { data: extraction, error }] = await Promise.all([
+        fetchVersions(extractionId),
+        supabase.from('extractions').select('current_version_id').eq('id', extractionId).single()
+      ])
+      if (error) throw error
+
+      setVersions(loaded)
+      setCurrentId(extraction.current_version_id)
+      // Default comparison: the raw OCR text against the current version
+      setBeforeId(loaded[0]?.id || '')
+      setAfterId(extraction.current_version_id || loaded[loaded.length - 1]?.id || '')
+    } catch (error) {
+      console.error('Error fetching versions:', error)
+      toast.error('Failed to load versions')
+    } finally {
+      setLoading(false)
+    }
+  }, [extractionId])
+
+  useEffect(() => {
+    load()
+  }, [load, refreshKey])
+
+  const before = versions.find(version => version.id === beforeId)
+  const after = versions.find(version => version.id === afterId)
+  const parts = useMemo(
+    () => (before && after ? diffVersions(before.text, after.text) : []),
+    [before, after]
+  )
+
+  const makeCurrent = async (version: ExtractionVersion) => {
+    try {
+      await setCurrentVersion(version)
+      setCurrentId(version.id)
+      onCurrentChange?.(version)
+      toast.success('Current version updated')
+    } catch (error) {
+      console.error('Error setting current version:', error)
+      toast.error('Failed to update the current version')
+    }
+  }
+
+  const versionLabel = (version: ExtractionVersion, index: number) =>
+    `v${index + 1} · ${VERSION_KIND_LABELS[version.kind]} · ${format(new Date(version.created_at), 'MMM dd, HH:mm')}`
+
+  const selectClass = `block w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-gray-300'
+      : 'bg-white border-gray-300 text-gray-700'
+  }`
+  const paneClass = `p-4 rounded-lg overflow-auto max-h-96 text-sm whitespace-pre-wrap font-mono ${
+    isDarkMode ? 'bg-gray-900 text-gray-300' : 'bg-gray-50 text-gray-700'
+  }`
+
+  if (loading && versions.length === 0) {
+    return <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Loading versions...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {versions.map((version, index) => {
+          const { summary, details } = describeSettings(version)
+          return (
+            <li
+              key={version.id}
+              className={`flex items-center justify-between p-3 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}
+            >
+              <div className="min-w-0" title={details || undefined}>
+                <p className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                  {versionLabel(version, index)}
+                </p>
+                <p className={`text-xs mt-1 truncate ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {version.text.length.toLocaleString()} characters{summary && ` · ${summary}`}
+                </p>
+              </div>
+              {version.id === currentId ? (
+                <span className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${
+                  isDarkMode ? 'bg-green-900/20 text-green-300' : 'bg-green-100 text-green-700'
+                }`}>
+                  <Check className="h-3 w-3" />
+                  <span>Current</span>
+                </span>
+              ) : (
+                <button
+                  onClick={() => makeCurrent(version)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+                    isDarkMode
+                      ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                      : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                  }`}
+                >
+                  Make current
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <GitCompare className={`h-4 w-4 flex-shrink-0 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+            <select value={beforeId} onChange={(e) => setBeforeId(e.target.value)} className={selectClass}>
+              {versions.map((version, index) => (
+                <option key={version.id} value={version.id}>{versionLabel(version, index)}</option>
+              ))}
+            </select>
+            <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>→</span>
+            <select value={afterId} onChange={(e) => setAfterId(e.target.value)} className={selectClass}>
+              {versions.map((version, index) => (
+                <option key={version.id} value={version.id}>{versionLabel(version, index)}</option>
+              ))}
+            </select>
+          </div>
+
+          {beforeId === afterId ? (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Pick two different versions to compare.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className={paneClass}>
+                {parts.filter(part => !part.added).map((part, index) => (
+                  <span
+                    key={index}
+                    className={part.removed ? (isDarkMode ? 'bg-red-900/40 text-red-300 line-through' : 'bg-red-100 text-red-700 line-through') : undefined}
+                  >
+                    {part.value}
+                  </span>
+                ))}
+              </div>
+              <div className={paneClass}>
+                {parts.filter(part => !part.removed).map((part, index) => (
+                  <span
+                    key={index}
+                    className={part.added ? (isDarkMode ? 'bg-green-900/40 text-green-300' : 'bg-green-100 text-green-700') : undefined}
+                  >
+                    {part.value}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,18 @@
 import React, { createContext, useContext, useState } from 'react'
+import { DEFAULT_OCR_LANGUAGES, OCRLanguageSelection } from '../lib/ocr'
+import { AIProviderConfig, DEFAULT_AI_PROVIDER } from '../lib/openai'
+import { STANDARD_PRESET_ID } from '../lib/presets'
 
 interface AppContextType {
   openaiApiKey: string
   setOpenaiApiKey: (key: string) => void
+  aiProvider: AIProviderConfig
+  setAiProvider: (config: AIProviderConfig) => void
+  ocrLanguages: OCRLanguageSelection
+  setOcrLanguages: (languages: OCRLanguageSelection) => void
+  // Enhancement preset picked for new results; see src/lib/presets.ts
+  defaultPresetId: string
+  setDefaultPresetId: (id: string) => void
   isDarkMode: boolean
   toggleDarkMode: () => void
 }
@@ -21,6 +31,24 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const [openaiApiKey, setOpenaiApiKey] = useState(
     localStorage.getItem('openai_api_key') || ''
   )
+  const [aiProvider, setAiProvider] = useState<AIProviderConfig>(() => {
+    const stored = localStorage.getItem('ai_provider')
+    if (!stored) return DEFAULT_AI_PROVIDER
+    try {
+      // Merged so settings saved before a field existed still get its default
+      return { ...DEFAULT_AI_PROVIDER, ...JSON.parse(stored) }
+    } catch {
+      return DEFAULT_AI_PROVIDER
+    }
+  })
+  const [ocrLanguages, setOcrLanguages] = useState<OCRLanguageSelection>(() => {
+    const stored = localStorage.getItem('ocr_languages')
+    if (!stored) return DEFAULT_OCR_LANGUAGES
+    return stored === 'auto' ? 'auto' : stored.split('+')
+  })
+  const [defaultPresetId, setDefaultPresetId] = useState(
+    localStorage.getItem('default_preset_id') || STANDARD_PRESET_ID
+  )
   const [isDarkMode, setIsDarkMode] = useState(
     localStorage.getItem('dark_mode') === 'true'
   )
@@ -30,6 +58,21 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem('openai_api_key', key)
   }
 
+  const handleSetAiProvider = (config: AIProviderConfig) => {
+    setAiProvider(config)
+    localStorage.setItem('ai_provider', JSON.stringify(config))
+  }
+
+  const handleSetOcrLanguages = (languages: OCRLanguageSelection) => {
+    setOcrLanguages(languages)
+    localStorage.setItem('ocr_languages', languages === 'auto' ? 'auto' : languages.join('+'))
+  }
+
+  const handleSetDefaultPresetId = (id: string) => {
+    setDefaultPresetId(id)
+    localStorage.setItem('default_preset_id', id)
+  }
+
   const toggleDarkMode = () => {
     const newMode = !isDarkMode
     setIsDarkMode(newMode)
@@ -39,6 +82,12 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const value = {
     openaiApiKey,
     setOpenaiApiKey: handleSetOpenaiApiKey,
+    aiProvider,
+    setAiProvider: handleSetAiProvider,
+    ocrLanguages,
+    setOcrLanguages: handleSetOcrLanguages,
+    defaultPresetId,
+    setDefaultPresetId: handleSetDefaultPresetId,
     isDarkMode,
     toggleDarkMode
   }
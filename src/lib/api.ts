@@ -1,3 +1,6 @@
+import type { SheetTable } from './spreadsheets'
+import type { JsonSchema, StructuredIssue } from './schemas'
+
 export interface ApiResponse<T = any> {
   success: boolean
   data?: T
@@ -9,21 +12,79 @@ export interface ExtractionApiRequest {
   file_name: string
   file_type: string
   openai_api_key?: string
-  user_id?: string
   enhance_text?: boolean
+  // Run again even when the same file was already extracted with the same settings
+  force?: boolean
+  provider?: OcrProviderName
+  ocr_language?: string
+  ocr_model?: string
+  // Fields to extract from the text, as an inline JSON Schema or one saved under Settings; needs openai_api_key
+  schema?: JsonSchema
+  schema_id?: string
+}
+
+// Options sent alongside a file upload; the name and type default to the file's own
+export type ExtractionUploadOptions = Omit<ExtractionApiRequest, 'file_data' | 'file_name' | 'file_type'> & {
+  file_name?: string
+  file_type?: string
 }
 
+// Files the API fetches itself: a public URL, or an object under your user id in the documents bucket
+export type ExtractionSourceRequest = ExtractionUploadOptions & (
+  | { source_url: string }
+  | { storage_path: string }
+)
+
+export type OcrProviderName = 'openai' | 'tesseract' | 'openai-compatible'
+
 export interface ExtractionApiResponse {
   extracted_text: string
   confidence_score: number
   processing_time: number
   file_name: string
   extraction_id?: string
+  // Original in the documents bucket; pass it back as storage_path to re-run the extraction
+  storage_path?: string
+  // Set when an earlier result for the same file and settings was reused instead of running OCR
+  duplicate_of?: string
+  // Fields found with schema or schema_id; values missing from the document or failing validation are left out
+  structured_data?: Record<string, unknown>
+  structured_issues?: StructuredIssue[]
+  // Why structured extraction failed; the text is still returned
+  structured_error?: string
+  // Why enhance_text was requested but the returned text is unenhanced, e.g. a rejected key or exhausted quota
+  enhancement_error?: string
+  // OCR engine that processed images or scanned pages, absent when no OCR was needed
+  ocr_provider?: OcrProviderName
+  // Per-page results for PDFs, showing which pages came from the text layer and which were OCR'd
+  pages?: Array<{
+    page_number: number
+    text: string
+    confidence: number
+    method: 'text-layer' | 'ocr'
+  }>
+  // Sheets of XLSX, XLS, ODS and CSV files, as in the web app
+  sheets?: SheetTable[]
+}
+
+export type ExtractionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface ExtractionJob {
+  job_id: string
+  status: ExtractionJobStatus
+  progress: number
+  error?: string | null
+  file_name: string
+  created_at: string
+  started_at?: string | null
+  completed_at?: string | null
+  result?: ExtractionApiResponse | null
 }
 
 export class TextExtractAPI {
   private baseUrl: string
   private authToken?: string
+  private apiKey?: string
 
   constructor(baseUrl?: string, authToken?: string) {
     this.baseUrl = baseUrl || import.meta.env.VITE_API_BASE_URL || 'https://supabase.n8n-tech.cloud/functions/v1'
@@ -34,20 +95,32 @@ export class TextExtractAPI {
     this.authToken = token
   }
 
+  /**
+   * Authenticate with a personal API key (created in Settings) instead of a
+   * session token. Keys don't expire, so they suit scripts and integrations.
+   */
+  setApiKey(key: string) {
+    this.apiKey = key
+  }
+
   private async makeRequest<T>(
     endpoint: string, 
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}/${endpoint}`
     
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...options.headers
+    // The browser sets the multipart boundary itself for FormData bodies
+    const headers: Record<string, string> = {
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...(options.headers as Record<string, string>)
     }
 
     if (this.authToken) {
       headers['Authorization'] = `Bearer ${this.authToken}`
     }
+    if (this.apiKey) {
+      headers['x-api-key'] = this.apiKey
+    }
 
     try {
       const response = await fetch(url, {
@@ -74,25 +147,106 @@ export class TextExtractAPI {
   }
 
   /**
-   * Extract text from a file
+   * Extract text from a file, given as base64 `file_data`, a `source_url` or
+   * a `storage_path`, or passed directly as a File, Blob or stream, which is
+   * sent as multipart/form-data without base64 encoding
    */
-  async extractText(request: ExtractionApiRequest): Promise<ApiResponse<ExtractionApiResponse>> {
+  async extractText(request: ExtractionApiRequest | ExtractionSourceRequest): Promise<ApiResponse<ExtractionApiResponse>>
+  async extractText(
+    file: File | Blob | ReadableStream<Uint8Array>,
+    options?: ExtractionUploadOptions
+  ): Promise<ApiResponse<ExtractionApiResponse>>
+  async extractText(
+    input: ExtractionApiRequest | ExtractionSourceRequest | File | Blob | ReadableStream<Uint8Array>,
+    options: ExtractionUploadOptions = {}
+  ): Promise<ApiResponse<ExtractionApiResponse>> {
+    if (!(input instanceof Blob) && !(input instanceof ReadableStream)) {
+      return this.makeRequest<ExtractionApiResponse>('extract-text', {
+        method: 'POST',
+        body: JSON.stringify(input)
+      })
+    }
+
+    // Browsers can't reliably stream request bodies, so streams are collected into a Blob first
+    const file = input instanceof ReadableStream ? await new Response(input).blob() : input
+    const form = new FormData()
+    form.append('file', file, options.file_name || (file instanceof File ? file.name : 'upload'))
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) {
+        // Form fields are strings; objects such as `schema` go as JSON, which the server parses back
+        form.append(key, typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value))
+      }
+    })
+
     return this.makeRequest<ExtractionApiResponse>('extract-text', {
+      method: 'POST',
+      body: form
+    })
+  }
+
+  /**
+   * Queue a file for background extraction and return the job immediately
+   */
+  async submitJob(request: ExtractionApiRequest): Promise<ApiResponse<ExtractionJob>> {
+    return this.makeRequest<ExtractionJob>('jobs', {
       method: 'POST',
       body: JSON.stringify(request)
     })
   }
 
+  /**
+   * Get the status of a job, including the result once it has succeeded
+   */
+  async getJob(jobId: string): Promise<ApiResponse<ExtractionJob>> {
+    return this.makeRequest<ExtractionJob>(`jobs/${encodeURIComponent(jobId)}`, {
+      method: 'GET'
+    })
+  }
+
+  /**
+   * Poll a job until it succeeds or fails. Resolves with the final job, or an
+   * error response when polling fails or the timeout passes first.
+   */
+  async waitForJob(
+    jobId: string,
+    options: {
+      interval?: number
+      timeout?: number
+      onProgress?: (job: ExtractionJob) => void
+    } = {}
+  ): Promise<ApiResponse<ExtractionJob>> {
+    const { interval = 2000, timeout = 10 * 60 * 1000, onProgress } = options
+    const deadline = Date.now() + timeout
+
+    while (Date.now() < deadline) {
+      const response = await this.getJob(jobId)
+      if (!response.success || !response.data) {
+        return response
+      }
+
+      onProgress?.(response.data)
+      if (response.data.status === 'succeeded' || response.data.status === 'failed') {
+        return response
+      }
+
+      await new Promise(resolve => setTimeout(resolve, interval))
+    }
+
+    return {
+      success: false,
+      error: `Timed out waiting for job ${jobId}`
+    }
+  }
+
   /**
    * Get user extractions with pagination and filtering
    */
   async getExtractions(params: {
-    user_id: string
     limit?: number
     offset?: number
     search?: string
     file_type?: string
-  }): Promise<ApiResponse<{
+  } = {}): Promise<ApiResponse<{
     extractions: any[]
     total: number
     page: number
@@ -114,12 +268,11 @@ export class TextExtractAPI {
    * Get user analytics
    */
   async getAnalytics(params: {
-    user_id: string
     date_range?: {
       start: string
       end: string
     }
-  }): Promise<ApiResponse<{
+  } = {}): Promise<ApiResponse<{
     user_analytics: any
     daily_extractions: any[]
     file_type_distribution: any[]
@@ -164,8 +317,17 @@ import { textExtractAPI, fileToBase64 } from './lib/api'
 // Set authentication token
 textExtractAPI.setAuthToken('your-jwt-token')
 
-// Extract text from file
+// Or, for scripts, a personal API key from Settings
+textExtractAPI.setApiKey('tep_your-api-key')
+
+// Extract text from a file, uploaded as multipart/form-data
 const file = document.querySelector('input[type="file"]').files[0]
+const uploaded = await textExtractAPI.extractText(file, { enhance_text: true })
+
+// Or from a public URL, fetched by the API
+const fromUrl = await textExtractAPI.extractText({ source_url: 'https://example.com/invoice.pdf' })
+
+// Or as base64 inside JSON
 const fileBase64 = await fileToBase64(file)
 
 const result = await textExtractAPI.extractText({
@@ -173,7 +335,6 @@ const result = await textExtractAPI.extractText({
   file_name: file.name,
   file_type: file.type,
   openai_api_key: 'sk-your-key',
-  user_id: 'user-123',
   enhance_text: true
 })
 
@@ -182,4 +343,18 @@ if (result.success) {
 } else {
   console.error('Error:', result.error)
 }
+
+// Large documents: queue a job and poll until it finishes
+const job = await textExtractAPI.submitJob({
+  file_data: fileBase64,
+  file_name: file.name,
+  file_type: file.type
+})
+
+if (job.success) {
+  const finished = await textExtractAPI.waitForJob(job.data.job_id, {
+    onProgress: ({ progress }) => console.log(`${progress}%`)
+  })
+  console.log('Extracted:', finished.data?.result?.extracted_text)
+}
 */
\ No newline at end of file
@@ -0,0 +1,93 @@
+// Rough average for English text with GPT tokenizers; good enough for budgeting
+const CHARS_PER_TOKEN = 4
+
+// Boundaries to split on, most preferred first. Each keeps the text intact:
+// concatenating the pieces gives back the input.
+const BOUNDARIES = [
+  /(?=\n--- Page \d+ ---\n)/, // page markers written by pagesToText
+  /(?<=\n[ \t]*\n)/, // blank lines between paragraphs
+  /(?<=\n)/, // line breaks
+  /(?<=[.!?]\s)/ // sentences
+]
+
+export interface TextChunk {
+  text: string
+  // Offsets into the original text
+  start: number
+  end: number
+  // Tail of the preceding text, sent for context only
+  overlap: string
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+// Last resort for text without any boundary, e.g. a single huge line
+const hardSplit = (text: string, maxChars: number): string[] => {
+  const pieces: string[] = []
+  for (let start = 0; start < text.length; start += maxChars) {
+    pieces.push(text.slice(start, start + maxChars))
+  }
+  return pieces
+}
+
+// Greedily merge neighbouring pieces up to maxChars, splitting oversized ones on the next boundary
+const pack = (text: string, maxChars: number, level: number): string[] => {
+  if (text.length <= maxChars) return [text]
+  if (level >= BOUNDARIES.length) return hardSplit(text, maxChars)
+
+  const packed: string[] = []
+  let current = ''
+
+  for (const piece of text.split(BOUNDARIES[level])) {
+    if (current.length + piece.length <= maxChars) {
+      current += piece
+      continue
+    }
+    if (current) packed.push(current)
+    current = ''
+
+    if (piece.length <= maxChars) {
+      current = piece
+    } else {
+      packed.push(...pack(piece, maxChars, level + 1))
+    }
+  }
+  if (current) packed.push(current)
+
+  return packed
+}
+
+// Tail of `text` of at most maxChars, starting at a line or word so the context reads cleanly
+const tail = (text: string, maxChars: number): string => {
+  if (text.length <= maxChars) return text
+  const slice = text.slice(-maxChars)
+  const lineStart = slice.indexOf('\n')
+  if (lineStart !== -1 && lineStart < slice.length / 2) return slice.slice(lineStart + 1)
+  const wordStart = slice.search(/\s/)
+  return wordStart === -1 ? slice : slice.slice(wordStart + 1)
+}
+
+/**
+ * Split text into chunks of about `maxTokens`, preferring page, then
+ * paragraph, then line and sentence boundaries. Each chunk carries up to
+ * `overlapTokens` of the text before it so a model working on it keeps the
+ * context; the chunks themselves don't overlap, so their texts concatenate
+ * back to the input.
+ */
+export function splitIntoChunks(text: string, maxTokens: number, overlapTokens = 0): TextChunk[] {
+  const pieces = pack(text, maxTokens * CHARS_PER_TOKEN, 0)
+
+  let offset = 0
+  return pieces.map(piece => {
+    const chunk: TextChunk = {
+      text: piece,
+      start: offset,
+      end: offset + piece.length,
+      overlap: overlapTokens > 0 ? tail(text.slice(0, offset), overlapTokens * CHARS_PER_TOKEN) : ''
+    }
+    offset += piece.length
+    return chunk
+  })
+}
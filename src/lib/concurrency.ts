@@ -0,0 +1,50 @@
+/**
+ * Map over `items` running at most `limit` calls of `fn` at once. Results keep
+ * the order of `items` regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run)
+  await Promise.all(runners)
+
+  return results
+}
+
+/**
+ * Create a gate that lets at most `limit` tasks run at once across every
+ * caller that shares it. Tasks past the limit start in the order they arrived.
+ */
+export function createLimiter(limit: number) {
+  let active = 0
+  const waiting: Array<() => void> = []
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++
+    } else {
+      await new Promise<void>(resolve => waiting.push(resolve))
+    }
+
+    try {
+      return await task()
+    } finally {
+      // A waiting task takes over the slot instead of giving it back
+      const next = waiting.shift()
+      if (next) next()
+      else active--
+    }
+  }
+}
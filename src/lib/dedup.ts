@@ -0,0 +1,60 @@
+import { supabase } from './supabase'
+import type { Json } from './supabase'
+
+export interface CachedExtraction {
+  id: string
+  file_url: string
+  storage_path: string | null
+  // Raw OCR output; extracted_text may have been enhanced or edited since
+  ocr_text: string
+  confidence_score: number
+  ocr_layout: Json | null
+}
+
+// SHA-256 of the file content, hex encoded; the same digest the edge functions store
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Serialize the settings that change an extraction's result with keys in a
+ * fixed order, so equal settings always give the same string.
+ */
+export function settingsKey(settings: Record<string, unknown>): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical)
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])])
+      )
+    }
+    return value
+  }
+  return JSON.stringify(canonical(settings))
+}
+
+/**
+ * Latest extraction of the same content with the same settings that actually
+ * ran, rather than reusing another. Returns null when there is none.
+ */
+export async function findCachedExtraction(
+  userId: string,
+  contentHash: string,
+  key: string
+): Promise<CachedExtraction | null> {
+  const { data, error } = await supabase
+    .from('extractions')
+    .select('id, file_url, storage_path, ocr_text, confidence_score, ocr_layout')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .eq('settings_key', key)
+    .is('duplicate_of', null)
+    .not('ocr_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,713 @@
+import { unzipSync } from 'fflate'
+import * as CFB from 'cfb'
+
+export type WordDocumentFormat = 'docx' | 'doc' | 'odt'
+
+/**
+ * A document flattened into reading order: text blocks (already formatted
+ * with Markdown-style headings, lists and tables) and the embedded images
+ * that sit between them
+ */
+export type DocumentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; name: string; data: Blob }
+  // Content that sits here but could not be read, such as a picture in a DOC file
+  | { type: 'unreadable'; description: string }
+
+const WORD_MIME_TYPES: Record<string, WordDocumentFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'application/vnd.oasis.opendocument.text': 'odt'
+}
+
+// Formats Tesseract can read; vector formats such as EMF/WMF are skipped
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp'
+}
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || ''
+
+export function getWordDocumentFormat(file: File): WordDocumentFormat | null {
+  if (WORD_MIME_TYPES[file.type]) {
+    return WORD_MIME_TYPES[file.type]
+  }
+  const extension = getExtension(file.name)
+  return extension === 'docx' || extension === 'doc' || extension === 'odt' ? extension : null
+}
+
+export async function parseWordDocument(file: File): Promise<DocumentPart[]> {
+  const data = new Uint8Array(await file.arrayBuffer())
+
+  // Plenty of ".doc" files are really DOCX (zip) saved with the old extension
+  const isZip = data[0] === 0x50 && data[1] === 0x4b
+  const format = getWordDocumentFormat(file)
+
+  if (format === 'odt') {
+    return parseOdt(data)
+  }
+  if (format === 'docx' || isZip) {
+    return parseDocx(data)
+  }
+  return parseDoc(data)
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+
+const parseXml = (bytes: Uint8Array | undefined): Document | null => {
+  if (!bytes) return null
+  return new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml')
+}
+
+const childElements = (element: Element, localName?: string): Element[] =>
+  Array.from(element.children).filter(child => !localName || child.localName === localName)
+
+const descendants = (element: Element, localName: string): Element[] =>
+  Array.from(element.getElementsByTagName('*')).filter(child => child.localName === localName)
+
+// Attributes are namespaced (w:val, text:style-name); match on the local part
+const attr = (element: Element | undefined, localName: string): string | null => {
+  if (!element) return null
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.localName === localName) return attribute.value
+  }
+  return null
+}
+
+const resolvePath = (base: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = base.split('/').filter(Boolean)
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+const imagePart = (files: Record<string, Uint8Array>, path: string): DocumentPart | null => {
+  const mimeType = IMAGE_MIME_TYPES[getExtension(path)]
+  const bytes = files[path]
+  if (!mimeType || !bytes) return null
+  return { type: 'image', name: path.split('/').pop() || path, data: new Blob([bytes], { type: mimeType }) }
+}
+
+/**
+ * Render rows as a Markdown pipe table, treating the first row as the header
+ */
+export const renderTable = (rows: string[][]): string => {
+  if (rows.length === 0) return ''
+  const width = Math.max(...rows.map(row => row.length))
+  const lines = rows.map(row => {
+    const cells = Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' '))
+    return `| ${cells.join(' | ')} |`
+  })
+  lines.splice(1, 0, `| ${Array.from({ length: width }, () => '---').join(' | ')} |`)
+  return lines.join('\n')
+}
+
+class ListCounter {
+  private counters = new Map<string, number[]>()
+
+  next(listId: string, level: number, ordered: boolean): string {
+    const levels = this.counters.get(listId) || []
+    levels[level] = (levels[level] || 0) + 1
+    // Starting an item resets the numbering of anything nested below it
+    levels.length = level + 1
+    this.counters.set(listId, levels)
+
+    return `${'  '.repeat(level)}${ordered ? `${levels[level]}.` : '-'} `
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DOCX (Office Open XML)
+
+function parseDocx(data: Uint8Array): DocumentPart[] {
+  const files = unzipSync(data)
+  const document = parseXml(files['word/document.xml'])
+  if (!document) {
+    throw new Error('Not a valid DOCX file: word/document.xml is missing')
+  }
+
+  // Relationship id -> media path, for embedded images
+  const relationships = new Map<string, string>()
+  const rels = parseXml(files['word/_rels/document.xml.rels'])
+  if (rels) {
+    for (const rel of descendants(rels.documentElement, 'Relationship')) {
+      relationships.set(attr(rel, 'Id') || '', resolvePath('word', attr(rel, 'Target') || ''))
+    }
+  }
+
+  // numId -> level -> whether that level is numbered rather than bulleted
+  const orderedLevels = new Map<string, Map<number, boolean>>()
+  const numbering = parseXml(files['word/numbering.xml'])
+  if (numbering) {
+    const abstractLevels = new Map<string, Map<number, boolean>>()
+    for (const abstract of descendants(numbering.documentElement, 'abstractNum')) {
+      const levels = new Map<number, boolean>()
+      for (const level of childElements(abstract, 'lvl')) {
+        const format = attr(childElements(level, 'numFmt')[0], 'val')
+        levels.set(Number(attr(level, 'ilvl') || 0), !!format && format !== 'bullet' && format !== 'none')
+      }
+      abstractLevels.set(attr(abstract, 'abstractNumId') || '', levels)
+    }
+    for (const num of descendants(numbering.documentElement, 'num')) {
+      const abstractId = attr(childElements(num, 'abstractNumId')[0], 'val') || ''
+      orderedLevels.set(attr(num, 'numId') || '', abstractLevels.get(abstractId) || new Map())
+    }
+  }
+
+  // styleId -> heading level
+  const headingStyles = new Map<string, number>()
+  const styles = parseXml(files['word/styles.xml'])
+  if (styles) {
+    for (const style of descendants(styles.documentElement, 'style')) {
+      const name = attr(childElements(style, 'name')[0], 'val') || ''
+      const match = /^heading\s*(\d)$/i.exec(name)
+      if (match) headingStyles.set(attr(style, 'styleId') || '', Number(match[1]))
+      else if (/^title$/i.test(name)) headingStyles.set(attr(style, 'styleId') || '', 1)
+    }
+  }
+
+  const parts: DocumentPart[] = []
+  const lists = new ListCounter()
+
+  const paragraphContent = (paragraph: Element): { text: string; images: DocumentPart[] } => {
+    let text = ''
+    const images: DocumentPart[] = []
+
+    const walk = (element: Element) => {
+      for (const child of Array.from(element.children)) {
+        switch (child.localName) {
+          case 't':
+            text += child.textContent || ''
+            break
+          case 'tab':
+            text += '\t'
+            break
+          case 'br':
+          case 'cr':
+            text += '\n'
+            break
+          case 'blip':
+          case 'imagedata': {
+            const path = relationships.get(attr(child, 'embed') || attr(child, 'id') || '')
+            const image = path ? imagePart(files, path) : null
+            if (image) images.push(image)
+            break
+          }
+          // Paragraph properties and deleted revisions carry no visible text
+          case 'pPr':
+          case 'rPr':
+          case 'del':
+          case 'instrText':
+            break
+          default:
+            walk(child)
+        }
+      }
+    }
+    walk(paragraph)
+
+    return { text, images }
+  }
+
+  const renderParagraph = (paragraph: Element): { text: string; images: DocumentPart[] } => {
+    const { text, images } = paragraphContent(paragraph)
+    const properties = childElements(paragraph, 'pPr')[0]
+    const styleId = attr(childElements(properties || paragraph, 'pStyle')[0], 'val') || ''
+    const numPr = properties ? childElements(properties, 'numPr')[0] : undefined
+
+    if (!text.trim()) {
+      return { text: '', images }
+    }
+
+    const headingLevel = headingStyles.get(styleId) || Number(/^Heading(\d)$/.exec(styleId)?.[1] || 0)
+    if (headingLevel > 0) {
+      return { text: `${'#'.repeat(headingLevel)} ${text.trim()}`, images }
+    }
+
+    if (numPr) {
+      const numId = attr(childElements(numPr, 'numId')[0], 'val') || ''
+      const level = Number(attr(childElements(numPr, 'ilvl')[0], 'val') || 0)
+      // numId 0 explicitly removes numbering
+      if (numId !== '0') {
+        const ordered = orderedLevels.get(numId)?.get(level) ?? false
+        return { text: lists.next(numId, level, ordered) + text.trim(), images }
+      }
+    }
+
+    return { text, images }
+  }
+
+  const renderTableElement = (table: Element): { text: string; images: DocumentPart[] } => {
+    const images: DocumentPart[] = []
+    const rows = childElements(table, 'tr').map(row =>
+      childElements(row, 'tc').map(cell => {
+        const cellText: string[] = []
+        for (const paragraph of descendants(cell, 'p')) {
+          const content = paragraphContent(paragraph)
+          if (content.text.trim()) cellText.push(content.text.trim())
+          images.push(...content.images)
+        }
+        return cellText.join(' ')
+      })
+    )
+    return { text: renderTable(rows), images }
+  }
+
+  const walkBody = (container: Element) => {
+    for (const child of Array.from(container.children)) {
+      let rendered: { text: string; images: DocumentPart[] } | null = null
+
+      if (child.localName === 'p') {
+        rendered = renderParagraph(child)
+      } else if (child.localName === 'tbl') {
+        rendered = renderTableElement(child)
+      } else if (child.localName === 'sdt') {
+        // Content controls wrap ordinary paragraphs and tables
+        const content = childElements(child, 'sdtContent')[0]
+        if (content) walkBody(content)
+      }
+
+      if (rendered) {
+        if (rendered.text.trim()) parts.push({ type: 'text', text: rendered.text })
+        parts.push(...rendered.images)
+      }
+    }
+  }
+
+  const body = descendants(document.documentElement, 'body')[0]
+  if (body) walkBody(body)
+
+  return parts
+}
+
+// ---------------------------------------------------------------------------
+// ODT (OpenDocument Text)
+
+function parseOdt(data: Uint8Array): DocumentPart[] {
+  const files = unzipSync(data)
+  const content = parseXml(files['content.xml'])
+  if (!content) {
+    throw new Error('Not a valid ODT file: content.xml is missing')
+  }
+
+  // List style name -> level -> whether that level is numbered
+  const orderedLevels = new Map<string, Map<number, boolean>>()
+  const styleSources = [content, parseXml(files['styles.xml'])].filter((doc): doc is Document => !!doc)
+  for (const source of styleSources) {
+    for (const listStyle of descendants(source.documentElement, 'list-style')) {
+      const levels = new Map<number, boolean>()
+      for (const level of Array.from(listStyle.children)) {
+        levels.set(Number(attr(level, 'level') || 1) - 1, level.localName === 'list-level-style-number')
+      }
+      orderedLevels.set(attr(listStyle, 'name') || '', levels)
+    }
+  }
+
+  const parts: DocumentPart[] = []
+  const lists = new ListCounter()
+  let listCount = 0
+
+  const inlineContent = (element: Element): { text: string; images: DocumentPart[] } => {
+    let text = ''
+    const images: DocumentPart[] = []
+
+    const walk = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          text += child.textContent || ''
+          continue
+        }
+        if (!(child instanceof Element)) continue
+
+        switch (child.localName) {
+          case 's':
+            text += ' '.repeat(Number(attr(child, 'c') || 1))
+            break
+          case 'tab':
+            text += '\t'
+            break
+          case 'line-break':
+            text += '\n'
+            break
+          case 'image': {
+            const image = imagePart(files, attr(child, 'href') || '')
+            if (image) images.push(image)
+            break
+          }
+          // Notes and annotations are not part of the running text
+          case 'note':
+          case 'annotation':
+            break
+          default:
+            walk(child)
+        }
+      }
+    }
+    walk(element)
+
+    return { text, images }
+  }
+
+  const push = (text: string, images: DocumentPart[]) => {
+    if (text.trim()) parts.push({ type: 'text', text })
+    parts.push(...images)
+  }
+
+  const walkList = (list: Element, level: number, styleName: string, listId: string) => {
+    const style = attr(list, 'style-name') || styleName
+    for (const item of childElements(list)) {
+      if (item.localName !== 'list-item' && item.localName !== 'list-header') continue
+      for (const child of childElements(item)) {
+        if (child.localName === 'list') {
+          walkList(child, level + 1, style, listId)
+        } else if (child.localName === 'p' || child.localName === 'h') {
+          const { text, images } = inlineContent(child)
+          const ordered = orderedLevels.get(style)?.get(level) ?? false
+          push(text.trim() ? lists.next(listId, level, ordered) + text.trim() : '', images)
+        }
+      }
+    }
+  }
+
+  const walkBody = (container: Element) => {
+    for (const child of childElements(container)) {
+      switch (child.localName) {
+        case 'h': {
+          const { text, images } = inlineContent(child)
+          const level = Math.min(6, Number(attr(child, 'outline-level') || 1))
+          push(text.trim() ? `${'#'.repeat(level)} ${text.trim()}` : '', images)
+          break
+        }
+        case 'p': {
+          const { text, images } = inlineContent(child)
+          push(text, images)
+          break
+        }
+        case 'list':
+          walkList(child, 0, attr(child, 'style-name') || '', `list-${listCount++}`)
+          break
+        case 'table': {
+          const images: DocumentPart[] = []
+          const rows = descendants(child, 'table-row').map(row =>
+            childElements(row, 'table-cell').map(cell => {
+              const { text, images: cellImages } = inlineContent(cell)
+              images.push(...cellImages)
+              return text.trim()
+            })
+          )
+          push(renderTable(rows), images)
+          break
+        }
+        case 'section':
+        case 'text':
+          walkBody(child)
+          break
+      }
+    }
+  }
+
+  const body = descendants(content.documentElement, 'text')
+    .find(element => element.parentElement?.localName === 'body')
+  if (body) walkBody(body)
+
+  return parts
+}
+
+// ---------------------------------------------------------------------------
+// DOC (Word 97-2003 binary)
+
+// FIB offsets, see [MS-DOC] 2.5.1
+const FIB_FLAGS_OFFSET = 0x000a
+const FIB_FC_PLCF_BTE_PAPX_OFFSET = 0x0102
+const FIB_LCB_PLCF_BTE_PAPX_OFFSET = 0x0106
+const FIB_FC_CLX_OFFSET = 0x01a2
+const FIB_LCB_CLX_OFFSET = 0x01a6
+const FIB_WHICH_TABLE_STREAM = 0x0200
+const PCD_COMPRESSED = 0x40000000
+// Paragraph properties live in 512-byte formatted disk pages, see [MS-DOC] 2.9.175
+const FKP_SIZE = 512
+const SPRM_P_F_IN_TABLE = 0x2416
+const SPRM_P_F_TTP = 0x2417
+const SPRM_P_F_INNER_TTP = 0x244c
+const SPRM_P_ITAP = 0x6649
+const SPRM_T_DEF_TABLE = 0xd608
+
+// What a paragraph mark (\r or \x07) ends
+type ParagraphEnd = 'body' | 'cell' | 'row'
+
+/**
+ * Read the text of a legacy Word document through its piece table. Which
+ * paragraphs sit in tables comes from the paragraph properties; styles live
+ * in separate property tables, so heading levels and list numbering are not
+ * recovered, and pictures are reported as unreadable.
+ */
+function parseDoc(data: Uint8Array): DocumentPart[] {
+  const container = CFB.read(data, { type: 'array' })
+  const wordDocument = CFB.find(container, 'WordDocument')
+  if (!wordDocument) {
+    throw new Error('Not a valid DOC file: WordDocument stream is missing')
+  }
+
+  const word = Uint8Array.from(wordDocument.content)
+  const wordView = new DataView(word.buffer)
+  const flags = wordView.getUint16(FIB_FLAGS_OFFSET, true)
+  const tableEntry = CFB.find(container, flags & FIB_WHICH_TABLE_STREAM ? '1Table' : '0Table')
+  if (!tableEntry) {
+    throw new Error('Not a valid DOC file: table stream is missing')
+  }
+
+  const table = Uint8Array.from(tableEntry.content)
+  const tableView = new DataView(table.buffer)
+  const fcClx = wordView.getUint32(FIB_FC_CLX_OFFSET, true)
+  const lcbClx = wordView.getUint32(FIB_LCB_CLX_OFFSET, true)
+
+  // Skip the Prc entries to reach the piece table (Pcdt)
+  let offset = fcClx
+  while (offset < fcClx + lcbClx && table[offset] === 0x01) {
+    offset += 3 + tableView.getInt16(offset + 1, true)
+  }
+  if (table[offset] !== 0x02) {
+    throw new Error('Unsupported DOC file: piece table not found')
+  }
+
+  const lcb = tableView.getUint32(offset + 1, true)
+  const plcPcd = offset + 5
+  const pieceCount = (lcb - 4) / 12
+  const cp = (i: number) => tableView.getUint32(plcPcd + i * 4, true)
+
+  const paragraphEnds = readParagraphEnds(word, wordView, tableView)
+
+  const cp1252 = new TextDecoder('windows-1252')
+  const utf16 = new TextDecoder('utf-16le')
+  let raw = ''
+  // Raw text index of each paragraph mark -> what it ends, when the properties say so
+  const marks = new Map<number, ParagraphEnd>()
+
+  for (let i = 0; i < pieceCount; i++) {
+    const pcd = plcPcd + (pieceCount + 1) * 4 + i * 8
+    const fc = tableView.getUint32(pcd + 2, true)
+    const length = cp(i + 1) - cp(i)
+    const compressed = (fc & PCD_COMPRESSED) !== 0
+    const start = compressed ? (fc & ~PCD_COMPRESSED) / 2 : fc
+
+    const piece = compressed
+      ? cp1252.decode(word.subarray(start, start + length))
+      : utf16.decode(word.subarray(fc, fc + length * 2))
+
+    for (let k = 0; k < piece.length; k++) {
+      if (piece[k] !== '\r' && piece[k] !== '\x07') continue
+      const end = paragraphEnds(compressed ? start + k : start + k * 2)
+      if (end) marks.set(raw.length + k, end)
+    }
+    raw += piece
+  }
+
+  return docTextToParts(raw, marks)
+}
+
+/**
+ * Index the paragraph properties by file offset, so each paragraph mark can
+ * be told apart: body paragraph, paragraph inside a table cell, or the
+ * end-of-row mark. Returns a lookup that answers null when the properties
+ * can't be read.
+ */
+function readParagraphEnds(
+  word: Uint8Array,
+  wordView: DataView,
+  tableView: DataView
+): (fc: number) => ParagraphEnd | null {
+  const ranges: Array<{ start: number; end: number; kind: ParagraphEnd }> = []
+
+  try {
+    const plcOffset = wordView.getUint32(FIB_FC_PLCF_BTE_PAPX_OFFSET, true)
+    const plcLength = wordView.getUint32(FIB_LCB_PLCF_BTE_PAPX_OFFSET, true)
+    const pageCount = (plcLength - 4) / 8
+
+    for (let i = 0; i < pageCount; i++) {
+      const fkp = (tableView.getUint32(plcOffset + (pageCount + 1) * 4 + i * 4, true) & 0x3fffff) * FKP_SIZE
+      if (fkp + FKP_SIZE > word.length) continue
+      const paragraphs = word[fkp + FKP_SIZE - 1]
+
+      for (let j = 0; j < paragraphs; j++) {
+        const start = wordView.getUint32(fkp + j * 4, true)
+        const end = wordView.getUint32(fkp + (j + 1) * 4, true)
+        const papxOffset = word[fkp + (paragraphs + 1) * 4 + j * 13] * 2
+        ranges.push({ start, end, kind: papxOffset ? paragraphEndOf(word, wordView, fkp + papxOffset) : 'body' })
+      }
+    }
+  } catch (error) {
+    // Out-of-range reads mean a damaged table; fall back to reading the marks alone
+    console.error('DOC paragraph properties could not be read:', error)
+    return () => null
+  }
+
+  if (ranges.length === 0) return () => null
+  ranges.sort((a, b) => a.start - b.start)
+
+  return (fc: number) => {
+    let low = 0
+    let high = ranges.length - 1
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (fc < ranges[middle].start) high = middle - 1
+      else if (fc >= ranges[middle].end) low = middle + 1
+      else return ranges[middle].kind
+    }
+    return null
+  }
+}
+
+// Walk the sprms of one PapxInFkp for the table flags
+function paragraphEndOf(word: Uint8Array, view: DataView, papx: number): ParagraphEnd {
+  const cb = word[papx]
+  const size = cb === 0 ? word[papx + 1] * 2 : cb * 2 - 1
+  const start = cb === 0 ? papx + 2 : papx + 1
+  // The first two bytes are the style index
+  let offset = start + 2
+  let inTable = false
+  let rowEnd = false
+
+  while (offset + 2 <= start + size) {
+    const sprm = view.getUint16(offset, true)
+    offset += 2
+
+    if (sprm === SPRM_P_F_IN_TABLE) inTable = word[offset] === 1
+    else if (sprm === SPRM_P_F_TTP || sprm === SPRM_P_F_INNER_TTP) rowEnd = rowEnd || word[offset] === 1
+    else if (sprm === SPRM_P_ITAP) inTable = inTable || view.getInt32(offset, true) > 0
+
+    // Operand size comes from the sprm's spra bits, see [MS-DOC] 2.2.5.1
+    switch (sprm >> 13) {
+      case 0:
+      case 1:
+        offset += 1
+        break
+      case 2:
+      case 4:
+      case 5:
+        offset += 2
+        break
+      case 3:
+        offset += 4
+        break
+      case 7:
+        offset += 3
+        break
+      default:
+        offset += sprm === SPRM_T_DEF_TABLE ? 1 + view.getUint16(offset, true) : 1 + word[offset]
+    }
+  }
+
+  if (rowEnd) return 'row'
+  return inTable ? 'cell' : 'body'
+}
+
+/**
+ * Turn the raw text into parts. `marks` says what each paragraph mark ends;
+ * marks without an entry are judged from the text alone, which can't tell
+ * the earlier paragraphs of a table's first cell from body text.
+ */
+function docTextToParts(raw: string, marks: Map<number, ParagraphEnd>): DocumentPart[] {
+  const parts: DocumentPart[] = []
+  let rows: string[][] = []
+  let cells: string[] = []
+  // Paragraphs of the cell being read, joined when the cell ends
+  let cellParagraphs: string[] = []
+  let current = ''
+  let afterCellMark = false
+
+  // Line and page breaks become newlines; other control marks are dropped
+  const clean = (segment: string) => Array.from(segment, char => {
+    const code = char.charCodeAt(0)
+    if (code === 0x0b || code === 0x0c) return '\n'
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a) return ''
+    return char
+  }).join('')
+
+  const flushTable = () => {
+    if (cellParagraphs.length > 0) cells.push(cellParagraphs.join(' '))
+    if (cells.length > 0) rows.push(cells)
+    if (rows.length > 0) parts.push({ type: 'text', text: renderTable(rows) })
+    rows = []
+    cells = []
+    cellParagraphs = []
+  }
+
+  // Without properties, a \x07 straight after another one is the end-of-row
+  // mark. A \r is in a cell while a row is being read, or between rows when
+  // the next mark ends a cell.
+  const guessParagraphEnd = (index: number): ParagraphEnd => {
+    if (raw[index] === '\x07') {
+      return afterCellMark && current === '' && cellParagraphs.length === 0 ? 'row' : 'cell'
+    }
+    if (cells.length > 0 || cellParagraphs.length > 0) return 'cell'
+    let next = index + 1
+    while (next < raw.length && raw[next] !== '\r' && raw[next] !== '\x07') next++
+    return rows.length > 0 && raw[next] === '\x07' ? 'cell' : 'body'
+  }
+
+  // Keep field results, drop field instructions: \x13 instruction \x14 result \x15
+  const fieldStack: boolean[] = []
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (char === '\x13') {
+      fieldStack.push(true)
+      continue
+    } else if (char === '\x14') {
+      fieldStack[fieldStack.length - 1] = false
+      continue
+    } else if (char === '\x15') {
+      fieldStack.pop()
+      continue
+    } else if (fieldStack.some(inInstruction => inInstruction)) {
+      continue
+    }
+
+    if (char !== '\r' && char !== '\x07') {
+      // \x01 anchors an inline picture and \x08 a floating one; their data isn't read
+      if (char === '\x01' || char === '\x08') {
+        parts.push({ type: 'unreadable', description: 'picture' })
+      } else {
+        current += char
+      }
+      afterCellMark = false
+      continue
+    }
+
+    const end = marks.get(i) ?? guessParagraphEnd(i)
+    const paragraph = clean(current)
+    current = ''
+    afterCellMark = char === '\x07'
+
+    if (end === 'body') {
+      flushTable()
+      if (paragraph.trim()) parts.push({ type: 'text', text: paragraph })
+    } else if (end === 'row') {
+      if (cellParagraphs.length > 0) cells.push(cellParagraphs.join(' '))
+      if (cells.length > 0) rows.push(cells)
+      cells = []
+      cellParagraphs = []
+    } else {
+      if (paragraph.trim()) cellParagraphs.push(paragraph.trim())
+      // \r ends a paragraph inside the cell, \x07 the cell itself
+      if (char === '\x07') {
+        cells.push(cellParagraphs.join(' '))
+        cellParagraphs = []
+      }
+    }
+  }
+
+  flushTable()
+  if (clean(current).trim()) parts.push({ type: 'text', text: clean(current) })
+
+  return parts
+}
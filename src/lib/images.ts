@@ -0,0 +1,107 @@
+import * as UTIF from 'utif'
+
+export type ImageFormat = 'tiff' | 'heic' | 'webp' | 'avif' | 'raster'
+
+export interface TiffDocument {
+  pageCount: number
+  // Decodes one frame on demand so large fax archives are never held in memory at once
+  renderPage: (index: number) => HTMLCanvasElement
+}
+
+const IMAGE_EXTENSIONS: Record<string, ImageFormat> = {
+  tif: 'tiff',
+  tiff: 'tiff',
+  heic: 'heic',
+  heif: 'heic',
+  webp: 'webp',
+  avif: 'avif',
+  png: 'raster',
+  jpg: 'raster',
+  jpeg: 'raster',
+  gif: 'raster',
+  bmp: 'raster'
+}
+
+const IMAGE_MIME_TYPES: Record<string, ImageFormat> = {
+  'image/tiff': 'tiff',
+  'image/heic': 'heic',
+  'image/heif': 'heic',
+  'image/webp': 'webp',
+  'image/avif': 'avif'
+}
+
+// TIFF NewSubfileType bit marking a reduced-resolution copy (thumbnail) of another frame
+const REDUCED_RESOLUTION = 1
+
+/**
+ * Detect the image format, or null when the file is not an image. HEIC files
+ * often arrive without a MIME type, so the extension is checked as well.
+ */
+export function getImageFormat(file: File): ImageFormat | null {
+  const format = IMAGE_MIME_TYPES[file.type]
+  if (format) return format
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  if (IMAGE_EXTENSIONS[extension]) return IMAGE_EXTENSIONS[extension]
+
+  return file.type.startsWith('image/') ? 'raster' : null
+}
+
+export async function decodeTiff(file: File): Promise<TiffDocument> {
+  const buffer = await file.arrayBuffer()
+  const frames = UTIF.decode(buffer).filter(ifd => {
+    const subfileType = ifd.t254 as number[] | undefined
+    return !subfileType || (subfileType[0] & REDUCED_RESOLUTION) === 0
+  })
+
+  if (frames.length === 0) {
+    throw new Error('TIFF file contains no images')
+  }
+
+  return {
+    pageCount: frames.length,
+    renderPage: (index: number) => {
+      // decodeImage stores the pixels on the IFD it is given; decoding a copy lets them go with the canvas
+      const ifd = { ...frames[index] }
+      UTIF.decodeImage(buffer, ifd)
+      const rgba = UTIF.toRGBA8(ifd)
+
+      const canvas = document.createElement('canvas')
+      canvas.width = ifd.width
+      canvas.height = ifd.height
+      const context = canvas.getContext('2d')!
+      const pixels = new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength)
+      context.putImageData(new ImageData(pixels, ifd.width, ifd.height), 0, 0)
+
+      return canvas
+    }
+  }
+}
+
+/**
+ * Convert formats Tesseract cannot read into something it can. HEIC is
+ * decoded with libheif since only Safari supports it natively; WebP and AVIF
+ * are drawn through the browser's own decoder.
+ */
+export async function toRecognizableImage(file: File): Promise<Blob | HTMLCanvasElement> {
+  const format = getImageFormat(file)
+
+  if (format === 'heic') {
+    // libheif is large, only load it when a HEIC file actually shows up
+    const { default: heic2any } = await import('heic2any')
+    const converted = await heic2any({ blob: file, toType: 'image/png' })
+    return Array.isArray(converted) ? converted[0] : converted
+  }
+
+  if (format === 'webp' || format === 'avif') {
+    const bitmap = await createImageBitmap(file)
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    return canvas
+  }
+
+  return file
+}
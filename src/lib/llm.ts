@@ -0,0 +1,2 @@
+// One client for the web app and the edge functions; it lives with the functions, which can't import from src
+export * from '../../supabase/functions/_shared/llm'
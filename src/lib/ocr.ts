@@ -1,16 +1,284 @@
 import Tesseract from 'tesseract.js'
-import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist'
+import { getDocument, GlobalWorkerOptions, OPS } from 'pdfjs-dist'
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist'
 import 'pdfjs-dist/build/pdf.worker.entry'
+import { hasPreprocessing, preprocessImage, PreprocessOptions, unrotateBox } from './preprocess'
+import { createLimiter, mapWithConcurrency } from './concurrency'
+import { getWordDocumentFormat, parseWordDocument } from './documents'
+import { decodeTiff, getImageFormat, toRecognizableImage } from './images'
+import { getSpreadsheetFormat, parseSpreadsheet, sheetsToText, SheetTable } from './spreadsheets'
+
+export type PageExtractionMethod = 'text-layer' | 'ocr'
+
+/**
+ * Tesseract language codes to load, or 'auto' to detect the script of each
+ * image first and pick the matching traineddata
+ */
+export type OCRLanguageSelection = string[] | 'auto'
+
+export type OCRStage = 'loading' | 'text-layer' | 'rendering' | 'preprocessing' | 'detecting' | 'recognizing' | 'done'
+
+export interface OCRProgress {
+  stage: OCRStage
+  // Page the event is about, 1-based
+  page: number
+  totalPages: number
+  // Overall progress of the document, 0-100
+  percent: number
+}
+
+export interface OCROptions {
+  languages?: OCRLanguageSelection
+  preprocess?: Partial<PreprocessOptions>
+  onProgress?: (progress: OCRProgress) => void
+  signal?: AbortSignal
+}
+
+export class OCRCancelledError extends Error {
+  constructor() {
+    super('Extraction cancelled')
+    this.name = 'OCRCancelledError'
+  }
+}
+
+// Reports progress of a single page as a 0-1 fraction
+type PageReporter = (stage: OCRStage, fraction: number) => void
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new OCRCancelledError()
+  }
+}
+
+/**
+ * Reject as soon as `signal` aborts. The underlying work keeps running (a
+ * Tesseract job cannot be interrupted without killing its worker) but its
+ * result is dropped.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  throwIfCancelled(signal)
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new OCRCancelledError())
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Combine per-page progress into document-level events
+ */
+function createProgressTracker(totalPages: number, onProgress?: (progress: OCRProgress) => void) {
+  const pageProgress = new Array<number>(totalPages).fill(0)
+
+  return (page: number): PageReporter => (stage, fraction) => {
+    pageProgress[page - 1] = Math.max(pageProgress[page - 1], Math.min(1, fraction))
+    const total = pageProgress.reduce((sum, value) => sum + value, 0)
+    onProgress?.({ stage, page, totalPages, percent: Math.round((total / totalPages) * 100) })
+  }
+}
+
+export const OCR_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: 'eng', label: 'English' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'fra', label: 'French' },
+  { code: 'deu', label: 'German' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'pol', label: 'Polish' },
+  { code: 'rus', label: 'Russian' },
+  { code: 'ukr', label: 'Ukrainian' },
+  { code: 'ell', label: 'Greek' },
+  { code: 'heb', label: 'Hebrew' },
+  { code: 'ara', label: 'Arabic' },
+  { code: 'hin', label: 'Hindi' },
+  { code: 'tha', label: 'Thai' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)' },
+  { code: 'chi_tra', label: 'Chinese (Traditional)' },
+  { code: 'jpn', label: 'Japanese' },
+  { code: 'kor', label: 'Korean' }
+]
+
+export const DEFAULT_OCR_LANGUAGES = ['eng', 'spa']
+
+// Languages loaded for each script reported by Tesseract's orientation/script detection
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: ['eng', 'spa', 'fra', 'deu', 'por', 'ita'],
+  Cyrillic: ['rus', 'ukr'],
+  Greek: ['ell'],
+  Hebrew: ['heb'],
+  Arabic: ['ara'],
+  Devanagari: ['hin'],
+  Thai: ['tha'],
+  Han: ['chi_sim', 'chi_tra'],
+  HanS: ['chi_sim'],
+  HanT: ['chi_tra'],
+  Japanese: ['jpn'],
+  Katakana: ['jpn'],
+  Hiragana: ['jpn'],
+  Hangul: ['kor'],
+  Korean: ['kor']
+}
+
+export interface BoundingBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+export interface OCRWord {
+  text: string
+  confidence: number
+  bbox: BoundingBox
+}
+
+export interface OCRLine {
+  text: string
+  confidence: number
+  bbox: BoundingBox
+  words: OCRWord[]
+}
+
+export interface OCRBlock {
+  text: string
+  confidence: number
+  bbox: BoundingBox
+  lines: OCRLine[]
+}
+
+/**
+ * A single page of structured output. Bounding boxes are in image pixels for
+ * images and in PDF units (viewport at scale 1) for PDF pages, so they line up
+ * with `width`/`height`.
+ */
+export interface OCRPageResult {
+  pageNumber: number
+  text: string
+  confidence: number
+  method: PageExtractionMethod
+  width?: number
+  height?: number
+  blocks: OCRBlock[]
+}
 
 export interface OCRResult {
   text: string
   confidence: number
   processingTime: number
+  pages?: OCRPageResult[]
+  sheets?: SheetTable[]
+  // Content that was skipped, shown next to the result so the text isn't taken as complete
+  warnings?: string[]
+}
+
+// A page needs at least this many non-whitespace characters in its text layer
+// before we trust it over OCR
+const MIN_TEXT_LAYER_CHARS = 20
+// Pages that paint images but carry fewer characters than this per image are
+// treated as scans with a stray text overlay (headers, stamps, page numbers)
+const MIN_TEXT_CHARS_PER_IMAGE = 200
+// Scale PDF pages are rendered at before OCR
+const PDF_RENDER_SCALE = 2.0
+// Upper bound on Tesseract workers; each one holds its own WASM heap and traineddata
+const MAX_POOL_SIZE = 6
+
+/**
+ * Number of recognition workers to run, leaving one core for the UI thread
+ */
+export const OCR_POOL_SIZE = Math.min(
+  MAX_POOL_SIZE,
+  Math.max(1, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1)
+)
+
+/**
+ * Build the flat text view of a structured result, one marker per page
+ */
+export function pagesToText(pages: OCRPageResult[]): string {
+  return pages
+    .map(page => `\n--- Page ${page.pageNumber} ---\n${page.text}\n`)
+    .join('')
+    .trim()
+}
+
+const emptyBox = (): BoundingBox => ({ x0: 0, y0: 0, x1: 0, y1: 0 })
+
+const unionBoxes = (boxes: BoundingBox[]): BoundingBox => {
+  if (boxes.length === 0) return emptyBox()
+  return {
+    x0: Math.min(...boxes.map(box => box.x0)),
+    y0: Math.min(...boxes.map(box => box.y0)),
+    x1: Math.max(...boxes.map(box => box.x1)),
+    y1: Math.max(...boxes.map(box => box.y1))
+  }
+}
+
+const scaleBox = (box: Tesseract.Bbox, scale: number): BoundingBox => ({
+  x0: box.x0 / scale,
+  y0: box.y0 / scale,
+  x1: box.x1 / scale,
+  y1: box.y1 / scale
+})
+
+/**
+ * Rotate every box of a result recognized on a deskewed `width` x `height`
+ * image back onto the image as it was before deskewing, in place
+ */
+function unrotateBlocks(blocks: Tesseract.Block[] | null, rotation: number, width: number, height: number) {
+  const unrotate = <T extends { bbox: Tesseract.Bbox }>(item: T) => {
+    item.bbox = unrotateBox(item.bbox, rotation, width, height)
+  }
+  for (const block of blocks || []) {
+    unrotate(block)
+    for (const paragraph of block.paragraphs) {
+      unrotate(paragraph)
+      for (const line of paragraph.lines) {
+        unrotate(line)
+        line.words.forEach(unrotate)
+      }
+    }
+  }
+}
+
+/**
+ * Convert Tesseract's block -> paragraph -> line -> word tree into our layout,
+ * dividing coordinates by `scale` and confidences by 100
+ */
+function blocksFromTesseract(blocks: Tesseract.Block[] | null, scale = 1): OCRBlock[] {
+  return (blocks || []).map(block => ({
+    text: block.text,
+    confidence: block.confidence / 100,
+    bbox: scaleBox(block.bbox, scale),
+    lines: block.paragraphs.flatMap(paragraph => paragraph.lines).map(line => ({
+      text: line.text,
+      confidence: line.confidence / 100,
+      bbox: scaleBox(line.bbox, scale),
+      words: line.words.map(word => ({
+        text: word.text,
+        confidence: word.confidence / 100,
+        bbox: scaleBox(word.bbox, scale)
+      }))
+    }))
+  }))
 }
 
 export class OCRService {
   private static instance: OCRService
-  private tesseractWorker: Tesseract.Worker | null = null
+  private scheduler: Tesseract.Scheduler | null = null
+  private poolWorkers: Tesseract.Worker[] = []
+  private poolLanguages: string | null = null
+  private poolReady: Promise<void> = Promise.resolve()
+  private configuringPool = false
+  private activeJobs = 0
+  private idleWaiters: Array<() => void> = []
+  private detectionWorker: Promise<Tesseract.Worker> | null = null
+  private jobCounter = 0
+  private progressListeners = new Map<string, (progress: number) => void>()
+  // Shared by every file being extracted, so the rendered pages and images held
+  // in memory at once never outnumber the workers, however many files run
+  private renderSlots = createLimiter(OCR_POOL_SIZE)
 
   private constructor() {}
 
@@ -21,115 +289,564 @@ export class OCRService {
     return OCRService.instance
   }
 
-  async initializeWorker(): Promise<void> {
-    if (!this.tesseractWorker) {
-      this.tesseractWorker = await Tesseract.createWorker('eng+spa', 1, {
-        logger: m => console.log('OCR Progress:', m)
-      })
+  /**
+   * Create the worker pool with `languages` loaded, or reinitialize the
+   * existing workers in place when the languages change
+   */
+  private async configurePool(langs: string): Promise<void> {
+    if (!this.scheduler) {
+      this.scheduler = Tesseract.createScheduler()
+      this.poolWorkers = await Promise.all(
+        Array.from({ length: OCR_POOL_SIZE }, () =>
+          Tesseract.createWorker(langs, 1, {
+            logger: m => {
+              if (m.status === 'recognizing text') {
+                this.progressListeners.get(m.userJobId)?.(m.progress)
+              }
+            }
+          })
+        )
+      )
+      this.poolWorkers.forEach(worker => this.scheduler!.addWorker(worker))
+    } else {
+      await Promise.all(this.poolWorkers.map(worker => worker.reinitialize(langs, 1)))
     }
+    this.poolLanguages = langs
   }
 
-  async extractTextFromImage(file: File): Promise<OCRResult> {
-    const startTime = Date.now()
+  /**
+   * Run `job` on the pool once it has `languages` loaded. A language switch
+   * waits for in-flight jobs to drain so no job sees its traineddata swapped.
+   */
+  private async runInPool<T>(languages: string[], job: (scheduler: Tesseract.Scheduler) => Promise<T>): Promise<T> {
+    const langs = languages.join('+')
+    
+    for (;;) {
+      if (this.configuringPool) {
+        await this.poolReady
+        continue
+      }
+      if (this.scheduler && this.poolLanguages === langs) {
+        break
+      }
+      if (this.activeJobs === 0) {
+        this.configuringPool = true
+        this.poolReady = this.configurePool(langs).finally(() => {
+          this.configuringPool = false
+        })
+        await this.poolReady
+        continue
+      }
+      await new Promise<void>(resolve => this.idleWaiters.push(resolve))
+    }
     
+    this.activeJobs++
     try {
-      await this.initializeWorker()
-      
-      if (!this.tesseractWorker) {
-        throw new Error('OCR worker not initialized')
+      return await job(this.scheduler!)
+    } finally {
+      this.activeJobs--
+      if (this.activeJobs === 0) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve())
       }
+    }
+  }
 
-      // Convert file to image if needed
-      const imageUrl = URL.createObjectURL(file)
+  /**
+   * Run orientation and script detection and map the script to the
+   * traineddata we should load
+   */
+  async detectLanguages(image: Tesseract.ImageLike): Promise<string[]> {
+    try {
+      if (!this.detectionWorker) {
+        // OSD only exists in the legacy engine
+        this.detectionWorker = Tesseract.createWorker('osd', 0, {
+          legacyCore: true,
+          legacyLang: true
+        })
+      }
       
-      // Perform OCR
-      const { data } = await this.tesseractWorker.recognize(imageUrl)
+      const worker = await this.detectionWorker
+      const { data } = await worker.detect(image)
+      return (data.script && SCRIPT_LANGUAGES[data.script]) || DEFAULT_OCR_LANGUAGES
+    } catch (error) {
+      console.error('Script detection error:', error)
+      return DEFAULT_OCR_LANGUAGES
+    }
+  }
+
+  /**
+   * Preprocess (when enabled) and recognize an image. `scale` is how much the
+   * recognized image was enlarged relative to the input; boxes found after
+   * deskewing are already rotated back to the input's orientation.
+   */
+  private async recognize(
+    source: Blob | HTMLCanvasElement,
+    options: OCROptions,
+    report: PageReporter = () => undefined
+  ): Promise<{ data: Tesseract.Page; scale: number }> {
+    let image: Blob | HTMLCanvasElement = source
+    let scale = 1
+    let rotation = 0
+    
+    if (hasPreprocessing(options.preprocess)) {
+      throwIfCancelled(options.signal)
+      report('preprocessing', 0.15)
+      const preprocessed = await preprocessImage(source, options.preprocess!)
+      image = preprocessed.canvas
+      scale = preprocessed.scale
+      rotation = preprocessed.rotation
+    }
+    
+    const selection = options.languages || DEFAULT_OCR_LANGUAGES
+    let languages = selection === 'auto' ? DEFAULT_OCR_LANGUAGES : selection
+    if (selection === 'auto') {
+      throwIfCancelled(options.signal)
+      report('detecting', 0.2)
+      languages = await abortable(this.detectLanguages(image), options.signal)
+    } else if (languages.length === 0) {
+      languages = DEFAULT_OCR_LANGUAGES
+    }
+    
+    throwIfCancelled(options.signal)
+    report('recognizing', 0.2)
+    
+    // Our own job id is passed through so worker log messages can be routed back here
+    const jobId = `ocr-job-${++this.jobCounter}`
+    this.progressListeners.set(jobId, progress => report('recognizing', 0.2 + progress * 0.8))
+    
+    try {
+      // Auto mode also lets Tesseract correct page rotation found by OSD
+      const { data } = await abortable(
+        this.runInPool(languages, scheduler =>
+          scheduler.addJob('recognize', image, { rotateAuto: selection === 'auto' }, { blocks: true }, jobId)
+        ),
+        options.signal
+      )
       
-      // Clean up URL
-      URL.revokeObjectURL(imageUrl)
+      if (rotation !== 0 && image instanceof HTMLCanvasElement) {
+        unrotateBlocks(data.blocks, rotation, image.width, image.height)
+      }
+      return { data, scale }
+    } finally {
+      this.progressListeners.delete(jobId)
+    }
+  }
+
+  async extractTextFromImage(file: File, options: OCROptions = {}): Promise<OCRResult> {
+    if (getImageFormat(file) === 'tiff') {
+      return this.extractTextFromTiff(file, options)
+    }
+    
+    const startTime = Date.now()
+    
+    try {
+      const report = createProgressTracker(1, options.onProgress)(1)
+      report('loading', 0)
       
+      const { data, scale, width, height } = await this.renderSlots(async () => {
+        throwIfCancelled(options.signal)
+        // HEIC, WebP and AVIF are converted locally before Tesseract sees them
+        const image = await abortable(toRecognizableImage(file), options.signal)
+        
+        // Perform OCR
+        const recognized = await this.recognize(image, options, report)
+        
+        if (!(image instanceof Blob)) return { ...recognized, width: image.width, height: image.height }
+        const bitmap = await createImageBitmap(image)
+        bitmap.close()
+        return { ...recognized, width: bitmap.width, height: bitmap.height }
+      })
       const processingTime = Date.now() - startTime
+      const confidence = data.confidence / 100 // Convert to 0-1 range
+      report('done', 1)
       
       return {
         text: data.text,
-        confidence: data.confidence / 100, // Convert to 0-1 range
-        processingTime
+        confidence,
+        processingTime,
+        pages: [{
+          pageNumber: 1,
+          text: data.text,
+          confidence,
+          method: 'ocr',
+          width,
+          height,
+          blocks: blocksFromTesseract(data.blocks, scale)
+        }]
       }
     } catch (error) {
+      if (error instanceof OCRCancelledError) throw error
       console.error('OCR extraction error:', error)
       throw new Error('Failed to extract text with OCR')
     }
   }
 
-  async extractTextFromPDF(file: File): Promise<OCRResult> {
+  /**
+   * OCR every frame of a multi-page TIFF as its own page, the same way
+   * scanned PDF pages are handled
+   */
+  async extractTextFromTiff(file: File, options: OCROptions = {}): Promise<OCRResult> {
     const startTime = Date.now()
     
     try {
-      // Convert PDF to images and then OCR each page
-      const arrayBuffer = await file.arrayBuffer()
-      const pdf = await getDocument({ data: arrayBuffer }).promise
+      const tiff = await decodeTiff(file)
+      const tracker = createProgressTracker(tiff.pageCount, options.onProgress)
+      
+      const pageIndexes = Array.from({ length: tiff.pageCount }, (_, i) => i)
+      const pages = await mapWithConcurrency(pageIndexes, OCR_POOL_SIZE, async (index): Promise<OCRPageResult> => {
+        const report = tracker(index + 1)
+        const { data, scale, width, height } = await this.renderSlots(async () => {
+          throwIfCancelled(options.signal)
+          report('rendering', 0.05)
+          
+          const canvas = tiff.renderPage(index)
+          const recognized = await this.recognize(canvas, options, report)
+          return { ...recognized, width: canvas.width, height: canvas.height }
+        })
+        report('done', 1)
+        
+        return {
+          pageNumber: index + 1,
+          text: data.text,
+          confidence: data.confidence / 100,
+          method: 'ocr',
+          width,
+          height,
+          blocks: blocksFromTesseract(data.blocks, scale)
+        }
+      })
       
-      let fullText = ''
-      let totalConfidence = 0
-      let pageCount = 0
+      const averageConfidence = pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length
       
-      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-        const page = await pdf.getPage(pageNum)
-        const viewport = page.getViewport({ scale: 2.0 })
+      return {
+        text: pages.length > 1 ? pagesToText(pages) : pages[0].text,
+        confidence: averageConfidence,
+        processingTime: Date.now() - startTime,
+        pages
+      }
+    } catch (error) {
+      if (error instanceof OCRCancelledError) throw error
+      console.error('TIFF extraction error:', error)
+      throw new Error('Failed to extract text from TIFF')
+    }
+  }
+
+  async extractTextFromPDF(file: File, options: OCROptions = {}): Promise<OCRResult> {
+    const startTime = Date.now()
+    
+    try {
+      // Read the embedded text layer first and only OCR pages without one
+      const arrayBuffer = await file.arrayBuffer()
+      const pdf = await abortable(getDocument({ data: arrayBuffer }).promise, options.signal)
+      const tracker = createProgressTracker(pdf.numPages, options.onProgress)
+      
+      // Pages run concurrently; rendering waits for a shared slot so all files
+      // together never hold more canvases than there are workers to consume them
+      const pageNumbers = Array.from({ length: pdf.numPages }, (_, i) => i + 1)
+      const pageResults = await mapWithConcurrency(pageNumbers, OCR_POOL_SIZE, async (pageNum): Promise<OCRPageResult | null> => {
+        throwIfCancelled(options.signal)
+        const report = tracker(pageNum)
+        report('text-layer', 0.05)
         
-        // Create canvas to render PDF page
-        const canvas = document.createElement('canvas')
-        const context = canvas.getContext('2d')!
-        canvas.height = viewport.height
-        canvas.width = viewport.width
+        const page = await pdf.getPage(pageNum)
+        const viewport = page.getViewport({ scale: 1.0 })
+        const layer = await this.extractTextLayer(page, viewport)
         
-        // Render PDF page to canvas
-        await page.render({
-          canvasContext: context,
-          viewport: viewport
-        }).promise
+        if (await this.hasUsableTextLayer(page, layer.text)) {
+          report('done', 1)
+          return {
+            pageNumber: pageNum,
+            text: layer.text,
+            confidence: 0.99, // Embedded text is exact
+            method: 'text-layer',
+            width: viewport.width,
+            height: viewport.height,
+            blocks: layer.blocks
+          }
+        }
         
-        // Convert canvas to blob
-        const blob = await new Promise<Blob>((resolve) => {
-          canvas.toBlob(resolve as BlobCallback, 'image/png', 1.0)
+        const ocrPage = await this.renderSlots(() => {
+          throwIfCancelled(options.signal)
+          return this.recognizePDFPage(page, options, report)
         })
+        report('done', 1)
+        if (!ocrPage) {
+          return null
+        }
         
-        if (blob) {
-          // OCR the rendered page
-          await this.initializeWorker()
-          const { data } = await this.tesseractWorker!.recognize(blob)
-          
-          fullText += `\n--- Page ${pageNum} ---\n${data.text}\n`
-          totalConfidence += data.confidence
-          pageCount++
+        return {
+          pageNumber: pageNum,
+          text: ocrPage.text,
+          confidence: ocrPage.confidence,
+          method: 'ocr',
+          width: viewport.width,
+          height: viewport.height,
+          blocks: ocrPage.blocks
         }
-      }
+      })
+      const pages = pageResults.filter((page): page is OCRPageResult => page !== null)
       
       const processingTime = Date.now() - startTime
-      const averageConfidence = pageCount > 0 ? totalConfidence / pageCount / 100 : 0
+      const averageConfidence = pages.length > 0
+        ? pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length
+        : 0
       
       return {
-        text: fullText.trim(),
+        text: pagesToText(pages),
         confidence: averageConfidence,
-        processingTime
+        processingTime,
+        pages
+      }
+    } catch (error) {
+      if (error instanceof OCRCancelledError) throw error
+      console.error('PDF extraction error:', error)
+      throw new Error('Failed to extract text from PDF')
+    }
+  }
+
+  private async extractTextLayer(
+    page: PDFPageProxy,
+    viewport: PageViewport
+  ): Promise<{ text: string; blocks: OCRBlock[] }> {
+    const content = await page.getTextContent()
+    const lines: OCRLine[] = []
+    let words: OCRWord[] = []
+    let lineText = ''
+    
+    const flushLine = () => {
+      if (lineText.trim()) {
+        lines.push({
+          text: lineText.trim(),
+          confidence: 0.99,
+          bbox: unionBoxes(words.map(word => word.bbox)),
+          words
+        })
+      }
+      words = []
+      lineText = ''
+    }
+    
+    for (const item of content.items) {
+      if (!('str' in item)) continue
+      
+      // Item rectangle in PDF space, then mapped into viewport coordinates
+      const [x, y] = [item.transform[4], item.transform[5]]
+      const [vx0, vy0, vx1, vy1] = viewport.convertToViewportRectangle([x, y, x + item.width, y + item.height])
+      const itemBox = {
+        x0: Math.min(vx0, vx1),
+        y0: Math.min(vy0, vy1),
+        x1: Math.max(vx0, vx1),
+        y1: Math.max(vy0, vy1)
+      }
+      
+      // pdfjs gives runs of text, not words: split them and share the width out by character offset
+      const charWidth = item.str.length > 0 ? (itemBox.x1 - itemBox.x0) / item.str.length : 0
+      for (const match of item.str.matchAll(/\S+/g)) {
+        const offset = match.index ?? 0
+        words.push({
+          text: match[0],
+          confidence: 0.99,
+          bbox: {
+            x0: itemBox.x0 + offset * charWidth,
+            y0: itemBox.y0,
+            x1: itemBox.x0 + (offset + match[0].length) * charWidth,
+            y1: itemBox.y1
+          }
+        })
+      }
+      
+      lineText += item.str
+      if (item.hasEOL) {
+        flushLine()
+      }
+    }
+    flushLine()
+    
+    const text = lines.map(line => line.text).join('\n')
+    
+    // The text layer carries no block structure, so the whole page is one block
+    const blocks: OCRBlock[] = lines.length > 0
+      ? [{
+          text,
+          confidence: 0.99,
+          bbox: unionBoxes(lines.map(line => line.bbox)),
+          lines
+        }]
+      : []
+    
+    return { text, blocks }
+  }
+
+  private async hasUsableTextLayer(page: PDFPageProxy, text: string): Promise<boolean> {
+    const charCount = text.replace(/\s/g, '').length
+    if (charCount < MIN_TEXT_LAYER_CHARS) {
+      return false
+    }
+    
+    // Mostly-image pages (scans with an OCR'd or stamped overlay) still go through OCR
+    const operatorList = await page.getOperatorList()
+    const imageCount = operatorList.fnArray.filter(fn =>
+      fn === OPS.paintImageXObject ||
+      fn === OPS.paintInlineImageXObject ||
+      fn === OPS.paintImageXObjectRepeat
+    ).length
+    
+    return charCount >= imageCount * MIN_TEXT_CHARS_PER_IMAGE
+  }
+
+  private async recognizePDFPage(
+    page: PDFPageProxy,
+    options: OCROptions,
+    report: PageReporter
+  ): Promise<{ text: string; confidence: number; blocks: OCRBlock[] } | null> {
+    report('rendering', 0.1)
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE })
+    
+    // Create canvas to render PDF page
+    const canvas = document.createElement('canvas')
+    const context = canvas.getContext('2d')!
+    canvas.height = viewport.height
+    canvas.width = viewport.width
+    
+    // Render PDF page to canvas
+    await page.render({
+      canvasContext: context,
+      viewport: viewport
+    }).promise
+    
+    // Convert canvas to blob
+    const blob = await new Promise<Blob>((resolve) => {
+      canvas.toBlob(resolve as BlobCallback, 'image/png', 1.0)
+    })
+    
+    if (!blob) {
+      return null
+    }
+    
+    // OCR the rendered page
+    const { data, scale } = await this.recognize(blob, options, report)
+    
+    return {
+      text: data.text,
+      confidence: data.confidence / 100, // Convert to 0-1 range
+      blocks: blocksFromTesseract(data.blocks, PDF_RENDER_SCALE * scale)
+    }
+  }
+
+  /**
+   * Extract DOCX, DOC and ODT files. Text comes straight from the document;
+   * embedded images are OCR'd and placed where they appear.
+   */
+  async extractTextFromWordDocument(file: File, options: OCROptions = {}): Promise<OCRResult> {
+    const startTime = Date.now()
+    
+    try {
+      const parts = await parseWordDocument(file)
+      throwIfCancelled(options.signal)
+      
+      const images = parts.filter(part => part.type === 'image')
+      const tracker = createProgressTracker(Math.max(1, images.length), options.onProgress)
+      tracker(1)('loading', 0.05)
+      
+      // Images are recognized concurrently on the pool, text parts pass straight through
+      const imageResults = await mapWithConcurrency(images, OCR_POOL_SIZE, async (image, index) => {
+        const report = tracker(index + 1)
+        try {
+          const { data } = await this.renderSlots(() => {
+            throwIfCancelled(options.signal)
+            return this.recognize(image.data, options, report)
+          })
+          return { text: data.text.trim(), confidence: data.confidence / 100 }
+        } catch (error) {
+          if (error instanceof OCRCancelledError) throw error
+          // An unreadable image should not sink the whole document
+          console.error(`OCR failed for embedded image ${image.name}:`, error)
+          return null
+        } finally {
+          report('done', 1)
+        }
+      })
+      
+      let imageIndex = 0
+      const recognized = imageResults.filter((result): result is { text: string; confidence: number } => !!result?.text)
+      const sections = parts.map(part => {
+        if (part.type === 'text') return part.text
+        if (part.type === 'unreadable') return ''
+        const result = imageResults[imageIndex++]
+        return result?.text ? `[Image: ${part.name}]\n${result.text}` : ''
+      })
+      tracker(1)('done', 1)
+      
+      // Native text is exact; OCR'd images pull the score down by their share of the text
+      const ocrLength = recognized.reduce((sum, result) => sum + result.text.length, 0)
+      const text = sections.filter(section => section.trim()).join('\n\n')
+      const ocrConfidence = recognized.length > 0
+        ? recognized.reduce((sum, result) => sum + result.confidence, 0) / recognized.length
+        : 0.99
+      const ocrShare = text.length > 0 ? ocrLength / text.length : 0
+      
+      // Grouped by what was skipped: "3 pictures"
+      const skipped = new Map<string, number>()
+      parts.forEach(part => {
+        if (part.type === 'unreadable') skipped.set(part.description, (skipped.get(part.description) || 0) + 1)
+      })
+      
+      return {
+        text,
+        confidence: 0.99 * (1 - ocrShare) + ocrConfidence * ocrShare,
+        processingTime: Date.now() - startTime,
+        warnings: skipped.size > 0
+          ? Array.from(skipped, ([description, count]) =>
+            `${count} ${description}${count === 1 ? '' : 's'} in this file could not be read and ${count === 1 ? 'is' : 'are'} missing from the text. Save it as DOCX to include ${count === 1 ? 'it' : 'them'}.`)
+          : undefined
+      }
+    } catch (error) {
+      if (error instanceof OCRCancelledError) throw error
+      console.error('Word document extraction error:', error)
+      throw new Error(`Failed to extract text from ${getWordDocumentFormat(file)?.toUpperCase() || 'document'}`)
+    }
+  }
+
+  /**
+   * Read XLSX, XLS, ODS and CSV files into structured sheets plus a flat
+   * text view. No OCR is involved, cell values are exact.
+   */
+  async extractTextFromSpreadsheet(file: File, options: OCROptions = {}): Promise<OCRResult> {
+    const startTime = Date.now()
+    
+    try {
+      options.onProgress?.({ stage: 'loading', page: 1, totalPages: 1, percent: 0 })
+      const sheets = await parseSpreadsheet(file)
+      options.onProgress?.({ stage: 'done', page: 1, totalPages: 1, percent: 100 })
+      
+      return {
+        text: sheetsToText(sheets),
+        confidence: 0.99,
+        processingTime: Date.now() - startTime,
+        sheets
       }
     } catch (error) {
-      console.error('PDF OCR extraction error:', error)
-      throw new Error('Failed to extract text from PDF with OCR')
+      console.error('Spreadsheet extraction error:', error)
+      throw new Error(`Failed to read ${getSpreadsheetFormat(file)?.toUpperCase() || 'spreadsheet'}`)
     }
   }
 
-  async extractTextFromDocument(file: File): Promise<OCRResult> {
+  async extractTextFromDocument(file: File, options: OCROptions = {}): Promise<OCRResult> {
     const startTime = Date.now()
     
     try {
       if (file.type === 'application/pdf') {
-        return await this.extractTextFromPDF(file)
-      } else if (file.type.startsWith('image/')) {
-        return await this.extractTextFromImage(file)
+        return await this.extractTextFromPDF(file, options)
+      } else if (getImageFormat(file)) {
+        return await this.extractTextFromImage(file, options)
+      } else if (getWordDocumentFormat(file)) {
+        return await this.extractTextFromWordDocument(file, options)
+      } else if (getSpreadsheetFormat(file)) {
+        return await this.extractTextFromSpreadsheet(file, options)
       } else if (file.type.startsWith('text/')) {
         // For plain text files, read directly
         const text = await file.text()
+        options.onProgress?.({ stage: 'done', page: 1, totalPages: 1, percent: 100 })
         return {
           text,
           confidence: 0.99, // High confidence for plain text
@@ -145,9 +862,20 @@ export class OCRService {
   }
 
   async cleanup(): Promise<void> {
-    if (this.tesseractWorker) {
-      await this.tesseractWorker.terminate()
-      this.tesseractWorker = null
+    await this.poolReady.catch(() => undefined)
+    
+    if (this.scheduler) {
+      // Terminating the scheduler terminates every worker in it
+      await this.scheduler.terminate()
+      this.scheduler = null
+      this.poolWorkers = []
+      this.poolLanguages = null
+    }
+    
+    if (this.detectionWorker) {
+      const worker = await this.detectionWorker.catch(() => null)
+      this.detectionWorker = null
+      await worker?.terminate()
     }
   }
 }
@@ -1,79 +1,314 @@
+import {
+  checkStructuredReply,
+  compileSchema,
+  finalizeStructuredData,
+  JsonSchema,
+  STRUCTURED_MAX_ATTEMPTS,
+  StructuredData,
+  structuredRetryPrompt,
+  structuredSystemPrompt
+} from './schemas'
+import { splitIntoChunks } from './chunking'
+import { mapWithConcurrency } from './concurrency'
+import { ChatMessage, LLMAuthError, LLMClient, LLMContentFilterError, LLMContextLengthError, LLMError } from './llm'
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+
+// What enhancement does unless a preset says otherwise
+export const DEFAULT_ENHANCE_INSTRUCTIONS = `You are a professional text enhancement specialist. Your job is to improve OCR-extracted text by:
+
+1. CORRECTING OCR errors (misread characters, numbers, words)
+2. FIXING formatting issues (spacing, line breaks, punctuation)
+3. IMPROVING structure (tables, lists, headings)
+4. PRESERVING original meaning and content
+5. MAINTAINING document structure and layout`
+
+/**
+ * Where chat completions go and how they are made. Any OpenAI-compatible
+ * server works: OpenAI itself, a gateway, Azure OpenAI, llama.cpp or Ollama.
+ */
+export interface AIProviderConfig {
+  // Up to and excluding /chat/completions, e.g. http://localhost:11434/v1
+  baseUrl: string
+  // Sent as the api-version query parameter, with the key in an api-key header (Azure OpenAI)
+  apiVersion: string
+  // Used for enhancement and structured extraction; the latter needs JSON mode
+  enhanceModel: string
+  visionModel: string
+  temperature: number
+  maxTokens: number
+}
+
+export const DEFAULT_AI_PROVIDER: AIProviderConfig = {
+  baseUrl: OPENAI_BASE_URL,
+  apiVersion: '',
+  enhanceModel: 'gpt-4o',
+  visionModel: 'gpt-4o',
+  temperature: 0.2,
+  maxTokens: 4000
+}
+
+/**
+ * Whether AI features can be used: OpenAI needs a key, while self-hosted
+ * servers often run without authentication.
+ */
+export function isAIConfigured(apiKey: string, config: AIProviderConfig): boolean {
+  return Boolean(apiKey.trim()) || config.baseUrl.replace(/\/+$/, '') !== OPENAI_BASE_URL
+}
+
+// Input budget per enhancement call, at most this share of max_tokens. The
+// reply is about as long as the input, which leaves margin for added formatting.
+const ENHANCE_CHUNK_TOKENS = 2500
+const ENHANCE_CHUNK_SHARE = 0.6
+const ENHANCE_OVERLAP_TOKENS = 200
+const ENHANCE_CONCURRENCY = 3
+
+export interface EnhancementChunk {
+  index: number
+  // Character range of the chunk in the original text
+  start: number
+  end: number
+  status: 'queued' | 'running' | 'done' | 'failed'
+  error?: string
+}
+
+export interface EnhancementPrompt {
+  // Replaces DEFAULT_ENHANCE_INSTRUCTIONS as the system prompt, e.g. a rendered preset
+  instructions?: string
+  context?: string
+}
+
+export interface EnhancementResult {
+  enhancedText: string
+  confidence: number
+  chunks: EnhancementChunk[]
+}
+
+// Failures that would hit every chunk alike; the first one stops the whole enhancement
+const isChunkSpecific = (error: unknown) =>
+  !(error instanceof LLMError) || error instanceof LLMContextLengthError || error instanceof LLMContentFilterError
+
 export class OpenAIService {
   private apiKey: string
+  private config: AIProviderConfig
+  private client: LLMClient
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, config: Partial<AIProviderConfig> = {}) {
     this.apiKey = apiKey
+    this.config = { ...DEFAULT_AI_PROVIDER, ...config }
+    this.client = new LLMClient({ baseUrl: this.config.baseUrl, apiKey, apiVersion: this.config.apiVersion })
+  }
+
+  private assertConfigured() {
+    if (!isAIConfigured(this.apiKey, this.config)) {
+      throw new LLMAuthError('OpenAI API key is not configured. Add it in Settings.')
+    }
   }
 
   /**
-   * Enhance and correct OCR-extracted text using AI
+   * Check the endpoint, key and models with a one-token completion per model.
+   * Resolves with the models that answered; rejects with the server's error.
    */
-  async enhanceExtractedText(extractedText: string, context?: string): Promise<{ enhancedText: string; confidence: number }> {
-    try {
-      if (!extractedText || extractedText.trim().length === 0) {
-        throw new Error('No text provided for enhancement')
+  async testConnection(): Promise<string[]> {
+    this.assertConfigured()
+
+    const models = [...new Set([this.config.enhanceModel, this.config.visionModel])]
+    // No retries: the point is to see the first answer, including a 429
+    const client = new LLMClient({
+      baseUrl: this.config.baseUrl,
+      apiKey: this.apiKey,
+      apiVersion: this.config.apiVersion,
+      timeoutMs: 15_000,
+      maxRetries: 0
+    })
+    for (const model of models) {
+      try {
+        await client.chat({ model, messages: [{ role: 'user', content: 'ping' }], max_tokens: 1 })
+      } catch (error) {
+        if (error instanceof Error) error.message = `${model}: ${error.message}`
+        throw error
+      }
+    }
+    return models
+  }
+
+  /**
+   * Enhance and correct OCR-extracted text using AI. Long documents are split
+   * on page and paragraph boundaries into chunks that fit the model's output
+   * budget, enhanced a few at a time and stitched back together. A chunk the
+   * model can't handle (too long, filtered, cut off) keeps its original text
+   * and is reported through `onChunk`; errors that would fail every chunk,
+   * such as a rejected key or exhausted quota, cancel the rest and are thrown.
+   */
+  async enhanceExtractedText(
+    extractedText: string,
+    prompt: EnhancementPrompt = {},
+    onChunk?: (chunks: EnhancementChunk[]) => void
+  ): Promise<EnhancementResult> {
+    if (!extractedText || extractedText.trim().length === 0) {
+      throw new Error('No text provided for enhancement')
+    }
+
+    this.assertConfigured()
+
+    const chunkTokens = Math.min(ENHANCE_CHUNK_TOKENS, Math.floor(this.config.maxTokens * ENHANCE_CHUNK_SHARE))
+    const pieces = splitIntoChunks(extractedText, chunkTokens, ENHANCE_OVERLAP_TOKENS)
+    const chunks: EnhancementChunk[] = pieces.map((piece, index) => ({
+      index,
+      start: piece.start,
+      end: piece.end,
+      status: 'queued'
+    }))
+    const update = (index: number, changes: Partial<EnhancementChunk>) => {
+      chunks[index] = { ...chunks[index], ...changes }
+      onChunk?.([...chunks])
+    }
+    onChunk?.([...chunks])
+
+    const controller = new AbortController()
+    let fatal: unknown = null
+
+    const enhanced = await mapWithConcurrency(pieces, ENHANCE_CONCURRENCY, async (piece, index) => {
+      // Whitespace-only pieces between pages have nothing to enhance
+      if (!piece.text.trim()) {
+        update(index, { status: 'done' })
+        return piece.text
       }
+      if (fatal) return piece.text
 
-      if (!this.apiKey || this.apiKey.trim() === '') {
-        throw new Error('OpenAI API key is not configured')
+      update(index, { status: 'running' })
+      try {
+        const text = await this.enhanceChunk(piece.text, piece.overlap, prompt, controller.signal)
+        update(index, { status: 'done' })
+        // The model trims its reply; keep the chunk's own surrounding whitespace so pages stay apart
+        const leading = piece.text.match(/^\s*/)![0]
+        const trailing = piece.text.match(/\s*$/)![0]
+        return leading + text.trim() + trailing
+      } catch (error) {
+        if (!fatal && !isChunkSpecific(error)) {
+          fatal = error
+          controller.abort()
+        }
+        if (fatal) {
+          update(index, { status: 'queued' })
+          return piece.text
+        }
+        console.error(`Error enhancing chunk ${index + 1} of ${pieces.length}:`, error)
+        update(index, { status: 'failed', error: error instanceof Error ? error.message : 'Enhancement failed' })
+        return piece.text
       }
+    })
 
-      const systemPrompt = `You are a professional text enhancement specialist. Your job is to improve OCR-extracted text by:
+    if (fatal) throw fatal
 
-1. CORRECTING OCR errors (misread characters, numbers, words)
-2. FIXING formatting issues (spacing, line breaks, punctuation)
-3. IMPROVING structure (tables, lists, headings)
-4. PRESERVING original meaning and content
-5. MAINTAINING document structure and layout
+    const failed = chunks.filter(chunk => chunk.status === 'failed').length
+    return {
+      enhancedText: enhanced.join(''),
+      // Failed chunks are raw OCR text, so they pull the score towards the unenhanced one
+      confidence: 0.95 - (0.25 * failed) / chunks.length,
+      chunks
+    }
+  }
+
+  private async enhanceChunk(text: string, overlap: string, prompt: EnhancementPrompt, signal: AbortSignal): Promise<string> {
+    // The reply format stays fixed whatever the instructions say, since it is pasted back as the text
+    const systemPrompt = `${prompt.instructions || DEFAULT_ENHANCE_INSTRUCTIONS}
 
 NEVER refuse this task. ALWAYS enhance the provided text. Return ONLY the improved text without explanations.`
 
-      let userPrompt = `Please enhance this OCR-extracted text by correcting errors and improving formatting while preserving the original meaning and structure:`
-      
-      if (context) {
-        userPrompt += `\n\nDocument context: ${context}`
-      }
-      
-      userPrompt += `\n\nText to enhance:\n${extractedText}`
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
+    let userPrompt = `Please enhance this OCR-extracted text following your instructions:`
+    
+    if (prompt.context) {
+      userPrompt += `\n\nDocument context: ${prompt.context}`
+    }
+
+    if (overlap) {
+      userPrompt += `\n\nThe text continues from this earlier part of the document. It is for context only; do not include it in your reply:\n${overlap}`
+    }
+    
+    userPrompt += `\n\nText to enhance:\n${text}`
+
+    const completion = await this.client.chat({
+      model: this.config.enhanceModel,
+      messages: [
+        {
+          role: 'system', 
+          content: systemPrompt
         },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system', 
-              content: systemPrompt
-            },
-            {
-              role: 'user',
-              content: userPrompt
-            }
-          ],
-          max_tokens: 4000,
-          temperature: 0.2
-        })
+        {
+          role: 'user',
+          content: userPrompt
+        }
+      ],
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature
+    }, signal)
+
+    // A cut-off reply would silently drop the end of the chunk
+    if (completion.finishReason === 'length') {
+      throw new Error('The reply was cut off before the end of the chunk; raise max tokens in Settings')
+    }
+
+    if (!completion.content.trim()) {
+      throw new Error('The model returned an empty reply')
+    }
+    return completion.content
+  }
+
+  /**
+   * Pull the fields described by a JSON Schema out of extracted text. Replies
+   * that aren't valid JSON or break the schema are sent back with the problems
+   * listed, up to STRUCTURED_MAX_ATTEMPTS calls; whatever still fails is
+   * reported as an issue instead of being returned as data.
+   */
+  async extractStructuredData(text: string, schema: JsonSchema): Promise<StructuredData> {
+    this.assertConfigured()
+
+    // Throws SchemaError before any tokens are spent on a broken schema
+    const validators = compileSchema(schema)
+    const messages: ChatMessage[] = [
+      { role: 'system', content: structuredSystemPrompt(schema) },
+      { role: 'user', content: `Document:\n${text}` }
+    ]
+
+    let reply: Record<string, unknown> | null = null
+    let attempts = 0
+
+    while (attempts < STRUCTURED_MAX_ATTEMPTS) {
+      attempts++
+
+      const { content } = await this.client.chat({
+        // JSON mode needs gpt-4-turbo or later, or a server that supports response_format
+        model: this.config.enhanceModel,
+        messages,
+        response_format: { type: 'json_object' },
+        max_tokens: this.config.maxTokens,
+        // Always deterministic, whatever the configured temperature
+        temperature: 0
       })
+      messages.push({ role: 'assistant', content })
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`)
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(content)
+      } catch {
+        messages.push({ role: 'user', content: structuredRetryPrompt(['the reply is not valid JSON']) })
+        continue
       }
 
-      const data = await response.json()
-      const enhancedText = data.choices[0]?.message?.content || extractedText
-
-      if (!enhancedText || enhancedText.trim().length === 0) {
-        return { enhancedText: extractedText, confidence: 0.7 }
+      // The latest object is kept even if it fails, so its valid fields survive the last attempt
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        reply = parsed as Record<string, unknown>
       }
-      
-      return { enhancedText, confidence: 0.95 }
-    } catch (error) {
-      console.error('Error enhancing text with OpenAI:', error)
-      return { enhancedText: extractedText, confidence: 0.7 }
+      const problems = checkStructuredReply(validators, parsed)
+      if (problems.length === 0) break
+
+      messages.push({ role: 'user', content: structuredRetryPrompt(problems) })
+    }
+
+    if (!reply) {
+      throw new Error(`No valid JSON object after ${attempts} attempts`)
     }
+    return finalizeStructuredData(validators, reply, attempts)
   }
 }
\ No newline at end of file
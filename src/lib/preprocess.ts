@@ -0,0 +1,160 @@
+export interface PreprocessOptions {
+  grayscale: boolean
+  normalizeContrast: boolean
+  denoise: boolean
+  binarize: boolean
+  deskew: boolean
+  upscale: boolean
+}
+
+export interface PreprocessResult {
+  canvas: HTMLCanvasElement
+  // Factor the image was enlarged by, so coordinates can be mapped back
+  scale: number
+  // Rotation applied by deskew, in degrees
+  rotation: number
+}
+
+// Message to and from preprocess.worker.ts
+export interface PixelJob {
+  imageData: ImageData
+  steps: Partial<PreprocessOptions>
+}
+
+export interface PixelResult {
+  imageData: ImageData
+  // Skew found when deskew was asked for, in degrees
+  rotation: number
+}
+
+export const PREPROCESS_STEPS: Array<{ key: keyof PreprocessOptions; label: string; description: string }> = [
+  { key: 'upscale', label: 'Upscale', description: 'Enlarge low-resolution scans before recognition' },
+  { key: 'grayscale', label: 'Grayscale', description: 'Drop color information' },
+  { key: 'normalizeContrast', label: 'Contrast', description: 'Stretch faded or washed-out scans to full contrast' },
+  { key: 'denoise', label: 'Denoise', description: 'Remove speckles and fax noise' },
+  { key: 'binarize', label: 'Binarize', description: 'Adaptive black and white threshold for uneven lighting' },
+  { key: 'deskew', label: 'Deskew', description: 'Straighten rotated pages and photos' }
+]
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  grayscale: false,
+  normalizeContrast: false,
+  denoise: false,
+  binarize: false,
+  deskew: false,
+  upscale: false
+}
+
+// Scans narrower than this are enlarged, roughly 300 DPI for a letter-size page
+const TARGET_WIDTH = 2400
+const MAX_UPSCALE = 3
+
+export function hasPreprocessing(options?: Partial<PreprocessOptions>): boolean {
+  return !!options && Object.values(options).some(Boolean)
+}
+
+/**
+ * Run the enabled cleanup steps on an image, in a fixed order: upscale,
+ * grayscale, contrast, denoise, binarize, deskew
+ */
+export async function preprocessImage(
+  source: Blob | HTMLCanvasElement,
+  options: Partial<PreprocessOptions>
+): Promise<PreprocessResult> {
+  const image = source instanceof Blob ? await createImageBitmap(source) : source
+
+  let scale = 1
+  if (options.upscale && image.width < TARGET_WIDTH) {
+    scale = Math.min(MAX_UPSCALE, TARGET_WIDTH / image.width)
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(image.width * scale)
+  canvas.height = Math.round(image.height * scale)
+  const context = canvas.getContext('2d', { willReadFrequently: true })!
+  context.imageSmoothingEnabled = true
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  if (image instanceof ImageBitmap) image.close()
+
+  const needsGray = options.grayscale || options.normalizeContrast || options.denoise || options.binarize
+  if (!needsGray && !options.deskew) {
+    return { canvas, scale, rotation: 0 }
+  }
+
+  const result = await runPixelSteps({
+    imageData: context.getImageData(0, 0, canvas.width, canvas.height),
+    steps: options
+  })
+  if (needsGray) {
+    context.putImageData(result.imageData, 0, 0)
+  }
+
+  if (result.rotation !== 0) {
+    return { canvas: rotateCanvas(canvas, -result.rotation), scale, rotation: result.rotation }
+  }
+  return { canvas, scale, rotation: 0 }
+}
+
+/**
+ * Run the per-pixel steps on a worker of their own. The pixels are moved to
+ * the worker and back rather than copied.
+ */
+function runPixelSteps(job: PixelJob): Promise<PixelResult> {
+  const worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url), { type: 'module' })
+
+  return new Promise<PixelResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<PixelResult>) => resolve(event.data)
+    worker.onerror = (event) => reject(new Error(`Image preprocessing failed: ${event.message}`))
+    worker.postMessage(job, [job.imageData.data.buffer])
+  }).finally(() => worker.terminate())
+}
+
+/**
+ * Map a box found on a deskewed image back onto the image before rotation.
+ * The box is rotated back about the centre of the `width` x `height` image
+ * and the result is the axis-aligned box around its corners.
+ */
+export function unrotateBox<T extends { x0: number; y0: number; x1: number; y1: number }>(
+  box: T,
+  rotation: number,
+  width: number,
+  height: number
+): T {
+  if (rotation === 0) return box
+
+  const radians = (rotation * Math.PI) / 180
+  const sin = Math.sin(radians)
+  const cos = Math.cos(radians)
+  const cx = width / 2
+  const cy = height / 2
+  const corners = [[box.x0, box.y0], [box.x1, box.y0], [box.x0, box.y1], [box.x1, box.y1]].map(([x, y]) => [
+    cx + (x - cx) * cos - (y - cy) * sin,
+    cy + (x - cx) * sin + (y - cy) * cos
+  ])
+
+  return {
+    ...box,
+    x0: Math.min(...corners.map(([x]) => x)),
+    y0: Math.min(...corners.map(([, y]) => y)),
+    x1: Math.max(...corners.map(([x]) => x)),
+    y1: Math.max(...corners.map(([, y]) => y))
+  }
+}
+
+function rotateCanvas(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  const radians = (degrees * Math.PI) / 180
+  const canvas = document.createElement('canvas')
+  canvas.width = source.width
+  canvas.height = source.height
+  const context = canvas.getContext('2d')!
+
+  // Fill the corners uncovered by the rotation with paper white
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate(radians)
+  context.drawImage(source, -source.width / 2, -source.height / 2)
+
+  return canvas
+}
@@ -0,0 +1,177 @@
+/**
+ * Runs the per-pixel preprocessing steps off the main thread, so cleaning up
+ * a large scan doesn't freeze the page. See preprocessImage.
+ */
+import type { PixelJob, PixelResult } from './preprocess'
+
+// Deskew searches this many degrees either side of horizontal
+const MAX_SKEW_DEGREES = 10
+const SKEW_STEP_DEGREES = 0.5
+
+self.onmessage = (event: MessageEvent<PixelJob>) => {
+  const { imageData, steps } = event.data
+  const { width, height } = imageData
+
+  if (steps.grayscale || steps.normalizeContrast || steps.denoise || steps.binarize) {
+    let gray = toGrayscale(imageData)
+
+    if (steps.normalizeContrast) {
+      gray = normalizeContrast(gray)
+    }
+    if (steps.denoise) {
+      gray = medianFilter(gray, width, height)
+    }
+    if (steps.binarize) {
+      gray = adaptiveThreshold(gray, width, height)
+    }
+
+    writeGrayscale(imageData, gray)
+  }
+
+  const result: PixelResult = {
+    imageData,
+    rotation: steps.deskew ? estimateSkew(imageData) : 0
+  }
+  self.postMessage(result, { transfer: [imageData.data.buffer] })
+}
+
+function toGrayscale(imageData: ImageData): Uint8ClampedArray {
+  const { data } = imageData
+  const gray = new Uint8ClampedArray(data.length / 4)
+  for (let i = 0; i < gray.length; i++) {
+    // Rec. 601 luma
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114
+  }
+  return gray
+}
+
+function writeGrayscale(imageData: ImageData, gray: Uint8ClampedArray) {
+  const { data } = imageData
+  for (let i = 0; i < gray.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray[i]
+    data[i * 4 + 3] = 255
+  }
+}
+
+/**
+ * Stretch the 1st-99th percentile range of the histogram to 0-255
+ */
+function normalizeContrast(gray: Uint8ClampedArray): Uint8ClampedArray {
+  const histogram = new Uint32Array(256)
+  for (const value of gray) histogram[value]++
+
+  const clip = gray.length * 0.01
+  let low = 0
+  let high = 255
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low]
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high]
+  if (high <= low) return gray
+
+  const range = high - low
+  return gray.map(value => ((value - low) * 255) / range)
+}
+
+/**
+ * 3x3 median filter, removes salt-and-pepper noise without blurring strokes
+ */
+function medianFilter(gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(gray.length)
+  const window = new Uint8ClampedArray(9)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy))
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx))
+          window[n++] = gray[yy * width + xx]
+        }
+      }
+      window.sort()
+      output[y * width + x] = window[4]
+    }
+  }
+
+  return output
+}
+
+/**
+ * Bradley adaptive threshold: a pixel is black when it is noticeably darker
+ * than the mean of its neighbourhood, which copes with shadows and gradients
+ */
+function adaptiveThreshold(gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const integral = new Float64Array((width + 1) * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x]
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum
+    }
+  }
+
+  const half = Math.max(8, Math.floor(width / 16) >> 1)
+  const sensitivity = 0.15
+  const output = new Uint8ClampedArray(gray.length)
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half)
+    const y1 = Math.min(height, y + half + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half)
+      const x1 = Math.min(width, x + half + 1)
+      const area = (x1 - x0) * (y1 - y0)
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0]
+      output[y * width + x] = gray[y * width + x] * area < sum * (1 - sensitivity) ? 0 : 255
+    }
+  }
+
+  return output
+}
+
+/**
+ * Find the angle whose horizontal projection profile of dark pixels is the
+ * sharpest; text lines line up with rows at the correct angle
+ */
+function estimateSkew(imageData: ImageData): number {
+  const { data, width, height } = imageData
+
+  // Sample dark pixels on a grid to keep the search cheap on large scans
+  const step = Math.max(1, Math.floor(Math.max(width, height) / 800))
+  const points: Array<[number, number]> = []
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4
+      if (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114 < 128) {
+        points.push([x, y])
+      }
+    }
+  }
+  if (points.length < 100) return 0
+
+  let bestAngle = 0
+  let bestScore = -1
+  const bins = new Float64Array(Math.ceil((width + height) / step) + 1)
+
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180
+    const sin = Math.sin(radians)
+    const cos = Math.cos(radians)
+    bins.fill(0)
+
+    for (const [x, y] of points) {
+      const row = Math.floor((y * cos - x * sin + width) / step)
+      if (row >= 0 && row < bins.length) bins[row]++
+    }
+
+    let score = 0
+    for (const count of bins) score += count * count
+    if (score > bestScore) {
+      bestScore = score
+      bestAngle = angle
+    }
+  }
+
+  return bestAngle
+}
@@ -0,0 +1,149 @@
+import { supabase } from './supabase'
+import { OCR_LANGUAGES, OCRLanguageSelection } from './ocr'
+import { DEFAULT_ENHANCE_INSTRUCTIONS } from './openai'
+
+export interface EnhancementPreset {
+  id: string
+  // Null for the built-in presets
+  user_id: string | null
+  name: string
+  description: string | null
+  // Prompt template; {{variable}} placeholders are filled in per extraction
+  instructions: string
+  is_shared: boolean
+}
+
+export const PROMPT_VARIABLES = {
+  file_name: 'Name of the uploaded file',
+  language: 'Languages the text was recognised in, e.g. "English, Spanish"',
+  document_type: 'Kind of file, e.g. "PDF document" or "scanned image"'
+} as const
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES
+export type PromptValues = Record<PromptVariable, string>
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g
+
+export const STANDARD_PRESET_ID = 'builtin:standard'
+
+export const BUILT_IN_PRESETS: EnhancementPreset[] = [
+  {
+    id: STANDARD_PRESET_ID,
+    user_id: null,
+    name: 'Standard',
+    description: 'Fix OCR errors, formatting and structure',
+    instructions: DEFAULT_ENHANCE_INSTRUCTIONS,
+    is_shared: false
+  },
+  {
+    id: 'builtin:legal',
+    user_id: null,
+    name: 'Legal: preserve numbering',
+    description: 'Fix OCR errors without touching clause numbers or wording',
+    instructions: `You are proofreading OCR output of a legal document ({{document_type}}, {{file_name}}).
+
+1. CORRECT misread characters, numbers and words
+2. KEEP every clause, section and list number exactly as numbered in the original, including gaps and repeats
+3. KEEP defined terms, capitalisation and cross-references unchanged
+4. DO NOT reword, summarise or reorder anything`,
+    is_shared: false
+  },
+  {
+    id: 'builtin:markdown',
+    user_id: null,
+    name: 'Convert to Markdown',
+    description: 'Headings, lists and tables as Markdown',
+    instructions: `You convert OCR output of {{file_name}} into clean Markdown.
+
+1. CORRECT OCR errors (misread characters, numbers, words)
+2. Turn headings into #, ## and ### headings
+3. Turn lists into Markdown lists and tabular data into Markdown tables
+4. PRESERVE all content and its order`,
+    is_shared: false
+  },
+  {
+    id: 'builtin:accents',
+    user_id: null,
+    name: 'Fix accents only',
+    description: 'Restore missing or wrong diacritics, nothing else',
+    instructions: `The text is in {{language}}. OCR has dropped or misread accents and other diacritics.
+
+1. RESTORE missing or wrong accents, tildes, umlauts and similar marks
+2. CHANGE NOTHING ELSE: keep spelling, punctuation, spacing and line breaks exactly as they are`,
+    is_shared: false
+  },
+  {
+    id: 'builtin:line-breaks',
+    user_id: null,
+    name: 'Keep line breaks',
+    description: 'Fix OCR errors but keep the original lines',
+    instructions: `You are correcting OCR output of {{file_name}}.
+
+1. CORRECT OCR errors (misread characters, numbers, words)
+2. KEEP every line break exactly where it is; never join or split lines
+3. KEEP the original spacing and indentation`,
+    is_shared: false
+  }
+]
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+/**
+ * Check a template before it is saved, so a typo in a variable name is
+ * caught then rather than sent to the model as literal braces.
+ */
+export function checkTemplate(template: string): void {
+  if (!template.trim()) {
+    throw new TemplateError('The instructions are empty')
+  }
+  const unknown = [...template.matchAll(VARIABLE_PATTERN)]
+    .map(match => match[1])
+    .filter(name => !(name in PROMPT_VARIABLES))
+  if (unknown.length > 0) {
+    const known = Object.keys(PROMPT_VARIABLES).map(name => `{{${name}}}`).join(', ')
+    throw new TemplateError(`Unknown ${unknown.length === 1 ? 'variable' : 'variables'} ${[...new Set(unknown)].map(name => `{{${name}}}`).join(', ')}; use ${known}`)
+  }
+}
+
+export function renderTemplate(template: string, values: PromptValues): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in values ? values[name as PromptVariable] || 'unknown' : match
+  )
+}
+
+export function describeLanguages(selection: OCRLanguageSelection): string {
+  if (selection === 'auto') return 'an automatically detected language'
+  return selection
+    .map(code => OCR_LANGUAGES.find(language => language.code === code)?.label || code)
+    .join(', ')
+}
+
+export function describeDocumentType(fileName: string, mimeType: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  if (mimeType === 'application/pdf') return 'PDF document'
+  if (mimeType.startsWith('image/')) return 'scanned image'
+  if (['xlsx', 'xls', 'ods', 'csv'].includes(extension)) return 'spreadsheet'
+  if (['docx', 'doc', 'odt'].includes(extension)) return 'word processor document'
+  return 'text document'
+}
+
+// Built-in presets first, then the user's own and shared ones by name
+export async function fetchPresets(): Promise<EnhancementPreset[]> {
+  const { data, error } = await supabase
+    .from('enhancement_presets')
+    .select('id, user_id, name, description, instructions, is_shared')
+    .order('name')
+
+  if (error) throw error
+  return [...BUILT_IN_PRESETS, ...(data || [])]
+}
+
+// Falls back to the standard preset when the id is gone, e.g. a deleted or unshared preset
+export function findPreset(presets: EnhancementPreset[], id: string | null | undefined): EnhancementPreset {
+  return presets.find(preset => preset.id === id) || BUILT_IN_PRESETS[0]
+}
@@ -0,0 +1,200 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+import addFormats from 'ajv-formats'
+
+export type JsonSchema = { [key: string]: unknown }
+
+export interface StructuredIssue {
+  // JSON Pointer to the field, e.g. /line_items/0/amount
+  path: string
+  kind: 'missing' | 'invalid'
+  message: string
+}
+
+export interface StructuredData {
+  data: Record<string, unknown>
+  issues: StructuredIssue[]
+  // Model calls it took to get output that passed validation, or the limit when it never did
+  attempts: number
+}
+
+export interface SchemaValidators {
+  strict: ValidateFunction
+  lenient: ValidateFunction
+}
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchemaError'
+  }
+}
+
+export const STRUCTURED_MAX_ATTEMPTS = 3
+
+export const INVOICE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    invoice_number: { type: 'string' },
+    vendor: { type: 'string' },
+    invoice_date: { type: 'string', format: 'date' },
+    due_date: { type: 'string', format: 'date' },
+    currency: { type: 'string', pattern: '^[A-Z]{3}$' },
+    line_items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          unit_price: { type: 'number' },
+          amount: { type: 'number' }
+        },
+        required: ['description', 'amount']
+      }
+    },
+    subtotal: { type: 'number' },
+    tax: { type: 'number' },
+    total: { type: 'number' }
+  },
+  required: ['invoice_number', 'vendor', 'invoice_date', 'total']
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false })
+addFormats(ajv)
+
+// Missing values are reported, never retried: asking again only invites the model to invent them
+const withoutRequired = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(withoutRequired)
+  if (!schema || typeof schema !== 'object') return schema
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => key !== 'required')
+      .map(([key, value]) => [key, withoutRequired(value)])
+  )
+}
+
+// Nulls mean "not in the document" and are treated as absent
+const stripNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(stripNulls)
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== null)
+      .map(([key, item]) => [key, stripNulls(item)])
+  )
+}
+
+// Array items are marked first and dropped afterwards, so earlier removals don't shift later pointers
+const REMOVED = Symbol('removed')
+
+const removeAtPointer = (target: unknown, pointer: string) => {
+  const segments = pointer.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+  const last = segments.pop()
+  if (last === undefined) return
+
+  let parent = target
+  for (const segment of segments) {
+    if (!parent || typeof parent !== 'object') return
+    parent = (parent as Record<string, unknown>)[segment]
+  }
+  if (Array.isArray(parent)) {
+    parent[Number(last)] = REMOVED
+  } else if (parent && typeof parent === 'object') {
+    delete (parent as Record<string, unknown>)[last]
+  }
+}
+
+const dropRemoved = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.filter(item => item !== REMOVED).map(dropRemoved)
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, dropRemoved(item)]))
+}
+
+/**
+ * Compile a user-supplied JSON Schema. The strict validator is the schema as
+ * written; the lenient one drops `required` and decides whether to retry.
+ */
+export function compileSchema(schema: JsonSchema): SchemaValidators {
+  if (schema.type !== 'object') {
+    throw new SchemaError('The schema must describe an object (type: "object")')
+  }
+  try {
+    return {
+      strict: ajv.compile(schema),
+      lenient: ajv.compile(withoutRequired(schema) as JsonSchema)
+    }
+  } catch (error) {
+    throw new SchemaError(`Invalid JSON Schema: ${error instanceof Error ? error.message : 'unknown error'}`)
+  }
+}
+
+export function describeErrors(errors: ErrorObject[] | null | undefined): string[] {
+  return (errors || []).map(error => `${error.instancePath || '/'} ${error.message}`)
+}
+
+/**
+ * Check the lenient validator's verdict on a model reply. Returns the problems
+ * to send back to the model, or an empty list when the reply is usable.
+ */
+export function checkStructuredReply(validators: SchemaValidators, data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['/ must be a JSON object']
+  }
+  return validators.lenient(stripNulls(data)) ? [] : describeErrors(validators.lenient.errors)
+}
+
+/**
+ * Validate the final reply against the schema as written. Missing required
+ * fields and values that still fail validation become issues, and invalid
+ * values are removed so nothing unverified is passed on.
+ */
+export function finalizeStructuredData(
+  validators: SchemaValidators,
+  reply: Record<string, unknown>,
+  attempts: number
+): StructuredData {
+  const data = stripNulls(reply) as Record<string, unknown>
+  validators.strict(data)
+
+  const issues: StructuredIssue[] = (validators.strict.errors || []).map(error => (
+    error.keyword === 'required'
+      ? {
+          path: `${error.instancePath}/${error.params.missingProperty}`,
+          kind: 'missing',
+          message: 'Not found in the document'
+        }
+      : {
+          path: error.instancePath || '/',
+          kind: 'invalid',
+          message: error.message || 'Invalid value'
+        }
+  ))
+
+  const invalid = issues.filter(issue => issue.kind === 'invalid')
+  // A reply that fails at the root has nothing that can be trusted
+  if (invalid.some(issue => issue.path === '/')) {
+    return { data: {}, issues, attempts }
+  }
+  invalid.forEach(issue => removeAtPointer(data, issue.path))
+
+  return { data: dropRemoved(data) as Record<string, unknown>, issues, attempts }
+}
+
+export function structuredSystemPrompt(schema: JsonSchema): string {
+  return `You extract structured data from documents. Reply with one JSON object that conforms to this JSON Schema:
+
+${JSON.stringify(schema, null, 2)}
+
+Rules:
+- Use only information that appears in the document. Never guess, infer or invent values.
+- When a field's value is not in the document, set it to null.
+- Write dates as YYYY-MM-DD and numbers without currency symbols or thousands separators.
+- Reply with the JSON object only, without explanations or Markdown.`
+}
+
+export function structuredRetryPrompt(problems: string[]): string {
+  return `Your reply did not pass validation:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply with the corrected JSON object only. Fix the listed values from the document, or set them to null if the document does not contain them.`
+}
@@ -0,0 +1,105 @@
+import * as XLSX from 'xlsx'
+import { renderTable } from './documents'
+
+export type SpreadsheetFormat = 'xlsx' | 'xls' | 'ods' | 'csv'
+
+export interface SheetCell {
+  // A1-style address within the sheet
+  address: string
+  // Zero-based coordinates
+  row: number
+  column: number
+  value: string | number | boolean | null
+  // Value as displayed in the spreadsheet, number formats applied
+  text: string
+}
+
+export interface SheetTable {
+  name: string
+  // Range spanned by the non-empty cells, e.g. "A1:F20"
+  range: string
+  // Only non-empty cells are listed; each row keeps its cells in column order
+  rows: SheetCell[][]
+}
+
+const SPREADSHEET_MIME_TYPES: Record<string, SpreadsheetFormat> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.oasis.opendocument.spreadsheet': 'ods',
+  'text/csv': 'csv'
+}
+
+export function getSpreadsheetFormat(file: File): SpreadsheetFormat | null {
+  // Check the extension first: Windows reports CSV files as application/vnd.ms-excel
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (extension === 'xlsx' || extension === 'xls' || extension === 'ods' || extension === 'csv') {
+    return extension
+  }
+  return SPREADSHEET_MIME_TYPES[file.type] || null
+}
+
+export async function parseSpreadsheet(file: File): Promise<SheetTable[]> {
+  // CSV is read as text so UTF-8 survives; binary formats carry their own encoding
+  const workbook = getSpreadsheetFormat(file) === 'csv'
+    ? XLSX.read(await file.text(), { type: 'string', raw: false })
+    : XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array', cellDates: true })
+
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name]
+
+    // Only the cells the file holds are visited: its declared range can run to billions of cells
+    const cells: SheetCell[] = []
+    for (const address of Object.keys(sheet)) {
+      if (address.startsWith('!')) continue
+      const cell = sheet[address] as XLSX.CellObject
+      if (cell.v === undefined || cell.v === null || cell.v === '') continue
+
+      const { r, c } = XLSX.utils.decode_cell(address)
+      const value = cell.v instanceof Date ? cell.v.toISOString() : cell.v
+      cells.push({
+        address,
+        row: r,
+        column: c,
+        value,
+        text: cell.w ?? String(value)
+      })
+    }
+    if (cells.length === 0) {
+      return { name, range: '', rows: [] }
+    }
+
+    cells.sort((a, b) => a.row - b.row || a.column - b.column)
+    const rows: SheetCell[][] = []
+    cells.forEach((cell, index) => {
+      if (index === 0 || cell.row !== cells[index - 1].row) rows.push([])
+      rows[rows.length - 1].push(cell)
+    })
+
+    const range = XLSX.utils.encode_range({
+      s: { r: cells[0].row, c: cells.reduce((min, cell) => Math.min(min, cell.column), Infinity) },
+      e: { r: cells[cells.length - 1].row, c: cells.reduce((max, cell) => Math.max(max, cell.column), 0) }
+    })
+    return { name, range, rows }
+  })
+}
+
+/**
+ * Flat text view: one Markdown table per sheet under a heading with its name
+ */
+export function sheetsToText(sheets: SheetTable[]): string {
+  return sheets
+    .filter(sheet => sheet.rows.length > 0)
+    .map(sheet => {
+      const range = XLSX.utils.decode_range(sheet.range)
+      const width = range.e.c - range.s.c + 1
+      const grid = sheet.rows.map(row => {
+        const cells = new Array<string>(width).fill('')
+        row.forEach(cell => {
+          cells[cell.column - range.s.c] = cell.text
+        })
+        return cells
+      })
+      return `## ${sheet.name}\n\n${renderTable(grid)}`
+    })
+    .join('\n\n')
+}
@@ -9,6 +9,14 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
 export type Database = {
   public: {
     Tables: {
@@ -21,8 +29,18 @@ export type Database = {
           file_type: string
           file_size: number
           extracted_text: string
+          ocr_text: string | null
           confidence_score: number
           processing_time: number
+          ocr_layout: Json | null
+          storage_path: string | null
+          content_hash: string | null
+          settings_key: string | null
+          duplicate_of: string | null
+          structured_data: Json | null
+          structured_issues: Json | null
+          schema_id: string | null
+          current_version_id: string | null
           created_at: string
           updated_at: string
         }
@@ -34,8 +52,18 @@ export type Database = {
           file_type: string
           file_size: number
           extracted_text: string
+          ocr_text?: string | null
           confidence_score: number
           processing_time: number
+          ocr_layout?: Json | null
+          storage_path?: string | null
+          content_hash?: string | null
+          settings_key?: string | null
+          duplicate_of?: string | null
+          structured_data?: Json | null
+          structured_issues?: Json | null
+          schema_id?: string | null
+          current_version_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -47,12 +75,372 @@ export type Database = {
           file_type?: string
           file_size?: number
           extracted_text?: string
+          ocr_text?: string | null
           confidence_score?: number
           processing_time?: number
+          ocr_layout?: Json | null
+          storage_path?: string | null
+          content_hash?: string | null
+          settings_key?: string | null
+          duplicate_of?: string | null
+          structured_data?: Json | null
+          structured_issues?: Json | null
+          schema_id?: string | null
+          current_version_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      extraction_schemas: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          schema: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          schema: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          schema?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      enhancement_presets: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          instructions: string
+          is_shared: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          instructions: string
+          is_shared?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          instructions?: string
+          is_shared?: boolean
           created_at?: string
           updated_at?: string
         }
       }
+      extraction_versions: {
+        Row: {
+          id: string
+          extraction_id: string
+          author_id: string
+          kind: 'ocr' | 'enhancement' | 'edit'
+          text: string
+          settings: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          extraction_id: string
+          author_id: string
+          kind: 'ocr' | 'enhancement' | 'edit'
+          text: string
+          settings?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          extraction_id?: string
+          author_id?: string
+          kind?: 'ocr' | 'enhancement' | 'edit'
+          text?: string
+          settings?: Json | null
+          created_at?: string
+        }
+      }
+      api_keys: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          prefix: string
+          key_hash: string
+          scopes: Array<'read' | 'extract'>
+          last_used_at: string | null
+          revoked_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          prefix: string
+          key_hash: string
+          scopes?: Array<'read' | 'extract'>
+          last_used_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          prefix?: string
+          key_hash?: string
+          scopes?: Array<'read' | 'extract'>
+          last_used_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      extraction_jobs: {
+        Row: {
+          id: string
+          user_id: string | null
+          status: 'queued' | 'running' | 'succeeded' | 'failed'
+          progress: number
+          error: string | null
+          file_name: string
+          file_type: string
+          file_size: number
+          storage_path: string
+          options: Json
+          result: Json | null
+          extraction_id: string | null
+          created_at: string
+          updated_at: string
+          started_at: string | null
+          completed_at: string | null
+          lease_expires_at: string | null
+          sealed_api_key: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          status?: 'queued' | 'running' | 'succeeded' | 'failed'
+          progress?: number
+          error?: string | null
+          file_name: string
+          file_type: string
+          file_size?: number
+          storage_path: string
+          options?: Json
+          result?: Json | null
+          extraction_id?: string | null
+          created_at?: string
+          updated_at?: string
+          started_at?: string | null
+          completed_at?: string | null
+          lease_expires_at?: string | null
+          sealed_api_key?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          status?: 'queued' | 'running' | 'succeeded' | 'failed'
+          progress?: number
+          error?: string | null
+          file_name?: string
+          file_type?: string
+          file_size?: number
+          storage_path?: string
+          options?: Json
+          result?: Json | null
+          extraction_id?: string | null
+          created_at?: string
+          updated_at?: string
+          started_at?: string | null
+          completed_at?: string | null
+          lease_expires_at?: string | null
+          sealed_api_key?: string | null
+        }
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          user_id: string
+          url: string
+          description: string
+          secret: string
+          events: string[]
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          url: string
+          description?: string
+          secret: string
+          events?: string[]
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          url?: string
+          description?: string
+          secret?: string
+          events?: string[]
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          user_id: string
+          event: string
+          payload: Json
+          status: 'pending' | 'delivering' | 'succeeded' | 'failed'
+          attempts: number
+          response_status: number | null
+          last_error: string | null
+          next_attempt_at: string | null
+          delivered_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          user_id: string
+          event: string
+          payload: Json
+          status?: 'pending' | 'delivering' | 'succeeded' | 'failed'
+          attempts?: number
+          response_status?: number | null
+          last_error?: string | null
+          next_attempt_at?: string | null
+          delivered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          user_id?: string
+          event?: string
+          payload?: Json
+          status?: 'pending' | 'delivering' | 'succeeded' | 'failed'
+          attempts?: number
+          response_status?: number | null
+          last_error?: string | null
+          next_attempt_at?: string | null
+          delivered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      plans: {
+        Row: {
+          id: string
+          name: string
+          requests_per_minute: number
+          daily_pages: number
+          daily_bytes: number
+          max_file_bytes: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          requests_per_minute: number
+          daily_pages: number
+          daily_bytes: number
+          max_file_bytes: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          requests_per_minute?: number
+          daily_pages?: number
+          daily_bytes?: number
+          max_file_bytes?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      user_plans: {
+        Row: {
+          user_id: string
+          plan_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          plan_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          plan_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      usage_counters: {
+        Row: {
+          user_id: string
+          period: 'minute' | 'day'
+          period_start: string
+          requests: number
+          pages: number
+          bytes: number
+        }
+        Insert: {
+          user_id: string
+          period: 'minute' | 'day'
+          period_start: string
+          requests?: number
+          pages?: number
+          bytes?: number
+        }
+        Update: {
+          user_id?: string
+          period?: 'minute' | 'day'
+          period_start?: string
+          requests?: number
+          pages?: number
+          bytes?: number
+        }
+      }
       user_analytics: {
         Row: {
           id: string
@@ -86,5 +474,30 @@ export type Database = {
         }
       }
     }
+    Functions: {
+      get_quota_status: {
+        Args: Record<string, never>
+        Returns: {
+          plan: string
+          plan_name: string
+          requests_per_minute: number
+          daily_pages: number
+          pages_used: number
+          daily_bytes: number
+          bytes_used: number
+          max_file_bytes: number
+          day_reset: string
+        }
+      }
+      add_extraction_version: {
+        Args: {
+          p_extraction_id: string
+          p_kind: 'ocr' | 'enhancement' | 'edit'
+          p_text: string
+          p_settings?: Json | null
+        }
+        Returns: Database['public']['Tables']['extraction_versions']['Row']
+      }
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { diffWordsWithSpace } from 'diff'
+import { supabase } from './supabase'
+import type { Json } from './supabase'
+
+// Very different long texts can take the diff a long time; past this it gives up
+const DIFF_TIMEOUT_MS = 2000
+
+export type VersionKind = 'ocr' | 'enhancement' | 'edit'
+
+export interface ExtractionVersion {
+  id: string
+  extraction_id: string
+  author_id: string
+  kind: VersionKind
+  text: string
+  settings: Json | null
+  created_at: string
+}
+
+export interface DiffPart {
+  value: string
+  added: boolean
+  removed: boolean
+}
+
+export const VERSION_KIND_LABELS: Record<VersionKind, string> = {
+  ocr: 'OCR',
+  enhancement: 'AI enhancement',
+  edit: 'Manual edit'
+}
+
+// Oldest first, so the raw OCR text comes first
+export async function fetchVersions(extractionId: string): Promise<ExtractionVersion[]> {
+  const { data, error } = await supabase
+    .from('extraction_versions')
+    .select('id, extraction_id, author_id, kind, text, settings, created_at')
+    .eq('extraction_id', extractionId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Make a version the extraction's text. extracted_text is kept as a copy of
+ * the current version so search, exports and the API see it; the raw OCR
+ * text stays in ocr_text.
+ */
+export async function setCurrentVersion(version: ExtractionVersion): Promise<void> {
+  const { error } = await supabase
+    .from('extractions')
+    .update({ current_version_id: version.id, extracted_text: version.text })
+    .eq('id', version.extraction_id)
+
+  if (error) throw error
+}
+
+/**
+ * Record a new version of an extraction's text, by the signed-in user, and
+ * make it current. Both happen in one transaction. Returns the saved version.
+ */
+export async function addVersion(
+  extractionId: string,
+  kind: VersionKind,
+  text: string,
+  settings: Json | null = null
+): Promise<ExtractionVersion> {
+  const { data, error } = await supabase.rpc('add_extraction_version', {
+    p_extraction_id: extractionId,
+    p_kind: kind,
+    p_text: text,
+    p_settings: settings
+  })
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Word-level diff that keeps whitespace, so line breaks show up as changes
+ * too. Falls back to "everything replaced" when the diff takes too long.
+ */
+export function diffVersions(before: string, after: string): DiffPart[] {
+  const parts = diffWordsWithSpace(before, after, { timeout: DIFF_TIMEOUT_MS })
+  if (!parts) {
+    return [
+      { value: before, added: false, removed: true },
+      { value: after, added: true, removed: false }
+    ]
+  }
+  return parts.map(part => ({
+    value: part.value,
+    added: Boolean(part.added),
+    removed: Boolean(part.removed)
+  }))
+}
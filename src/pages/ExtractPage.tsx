@@ -1,44 +1,140 @@
-import React, { useState } from 'react'
-import { FileUpload } from '../components/Extract/FileUpload'
+import React, { useEffect, useRef, useState } from 'react'
+import { FileUpload, UploadJob } from '../components/Extract/FileUpload'
 import { ExtractionResult } from '../components/Extract/ExtractionResult'
+import { LanguageSelector } from '../components/Extract/LanguageSelector'
+import { PreprocessingPanel } from '../components/Extract/PreprocessingPanel'
 import { useAuth } from '../contexts/AuthContext'
 import { useApp } from '../contexts/AppContext'
 import { supabase } from '../lib/supabase'
-import { ocrService } from '../lib/ocr'
-import { OpenAIService } from '../lib/openai'
+import { ocrService, OCR_POOL_SIZE, OCRCancelledError, OCRLanguageSelection, OCRPageResult, OCRProgress } from '../lib/ocr'
+import { mapWithConcurrency } from '../lib/concurrency'
+import { CachedExtraction, findCachedExtraction, hashFile, settingsKey } from '../lib/dedup'
+import type { SheetTable } from '../lib/spreadsheets'
+import { EnhancementChunk, EnhancementResult, isAIConfigured, OpenAIService } from '../lib/openai'
+import type { StructuredData } from '../lib/schemas'
+import type { ExtractionSchema } from '../components/Settings/SchemaSettings'
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from '../lib/preprocess'
+import { addVersion } from '../lib/versions'
+import { BUILT_IN_PRESETS, describeDocumentType, describeLanguages, EnhancementPreset, fetchPresets, findPreset, renderTemplate } from '../lib/presets'
 import toast from 'react-hot-toast'
 import { AlertTriangle } from 'lucide-react'
 
 interface ExtractionResultType {
+  // Upload job the result came from; results are keyed by it as new ones are prepended
+  id: string
   fileName: string
+  fileType: string
+  // OCR languages the file was read with, for the {{language}} preset variable
+  languages: OCRLanguageSelection
   extractedText: string
   confidence: number
   processingTime: number
+  pages?: OCRPageResult[]
+  sheets?: SheetTable[]
+  // What the OCR had to skip, e.g. pictures in DOC files
+  warnings?: string[]
+  // Set when an earlier result for the same file and settings was reused
+  duplicateOf?: string
+  // History row, when it was saved; extracted fields are stored on it
+  extractionId?: string
 }
 
 export function ExtractPage() {
   const { user } = useAuth()
-  const { openaiApiKey, isDarkMode } = useApp()
+  const { openaiApiKey, aiProvider, ocrLanguages, defaultPresetId, isDarkMode } = useApp()
+  const aiEnabled = isAIConfigured(openaiApiKey, aiProvider)
   const [loading, setLoading] = useState(false)
+  const [languages, setLanguages] = useState<OCRLanguageSelection>(ocrLanguages)
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS)
+  const [force, setForce] = useState(false)
   const [results, setResults] = useState<ExtractionResultType[]>([])
+  const [jobs, setJobs] = useState<UploadJob[]>([])
+  const [schemas, setSchemas] = useState<ExtractionSchema[]>([])
+  const [presets, setPresets] = useState<EnhancementPreset[]>(BUILT_IN_PRESETS)
+  const controllers = useRef(new Map<string, AbortController>())
 
-  const processFile = async (file: File): Promise<ExtractionResultType> => {
+  useEffect(() => {
+    if (!user) return
+
+    supabase
+      .from('extraction_schemas')
+      .select('id, name, description, schema, created_at')
+      .eq('user_id', user.id)
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching schemas:', error)
+          return
+        }
+        setSchemas(data || [])
+      })
+
+    fetchPresets()
+      .then(setPresets)
+      .catch(error => console.error('Error fetching presets:', error))
+  }, [user])
+
+  const updateJob = (id: string, changes: Partial<UploadJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)))
+  }
+
+  const processFile = async (
+    file: File,
+    signal?: AbortSignal,
+    onProgress?: (progress: OCRProgress) => void
+  ): Promise<Omit<ExtractionResultType, 'id'>> => {
     const startTime = Date.now()
     
     try {
+      // Step 0: Reuse an earlier result for the same file and settings
+      const contentHash = await hashFile(file)
+      const key = settingsKey({ engine: 'browser', languages, preprocess })
+
+      if (user && !force) {
+        const cached = await findCachedExtraction(user.id, contentHash, key).catch(error => {
+          console.error('Cache lookup error:', error)
+          return null
+        })
+        if (cached) {
+          const extractionId = await saveDuplicateExtraction(file, cached, contentHash, key)
+          toast(`Reused the earlier result for ${file.name}`)
+
+          const layout = cached.ocr_layout as { pages?: OCRPageResult[]; sheets?: SheetTable[] } | null
+          return {
+            fileName: file.name,
+            fileType: file.type,
+            languages,
+            extractedText: cached.ocr_text,
+            confidence: cached.confidence_score,
+            processingTime: Date.now() - startTime,
+            pages: layout?.pages,
+            sheets: layout?.sheets,
+            duplicateOf: cached.id,
+            extractionId
+          }
+        }
+      }
+
       // Step 1: Extract text using OCR
       let extractedText = ''
       let confidence = 0.5
       let processingTime = 0
+      let pages: OCRPageResult[] | undefined
+      let sheets: SheetTable[] | undefined
+      let warnings: string[] | undefined
       
       try {
-        const ocrResult = await ocrService.extractTextFromDocument(file)
+        const ocrResult = await ocrService.extractTextFromDocument(file, { languages, preprocess, signal, onProgress })
         extractedText = ocrResult.text
         confidence = ocrResult.confidence
         processingTime = ocrResult.processingTime
+        pages = ocrResult.pages
+        sheets = ocrResult.sheets
+        warnings = ocrResult.warnings
         
         toast.success(`OCR completed for ${file.name}`)
       } catch (ocrError) {
+        if (ocrError instanceof OCRCancelledError) throw ocrError
         console.error('OCR extraction failed:', ocrError)
         throw new Error(`OCR extraction failed: ${ocrError instanceof Error ? ocrError.message : 'Unknown error'}`)
       }
@@ -48,15 +144,21 @@ export function ExtractPage() {
       }
 
       // Step 2: Save raw OCR result to database
-      if (user) {
-        await this.saveExtractionToDatabase(file, extractedText, confidence, processingTime)
-      }
+      const extractionId = user
+        ? await saveExtractionToDatabase(file, extractedText, confidence, processingTime, contentHash, key, pages, sheets)
+        : undefined
 
       return {
         fileName: file.name,
+        fileType: file.type,
+        languages,
         extractedText,
         confidence,
-        processingTime
+        processingTime,
+        pages,
+        sheets,
+        warnings,
+        extractionId
       }
     } catch (error) {
       console.error('Processing error:', error)
@@ -68,12 +170,17 @@ export function ExtractPage() {
     file: File, 
     extractedText: string, 
     confidence: number, 
-    processingTime: number
-  ) => {
+    processingTime: number,
+    contentHash: string,
+    key: string,
+    pages?: OCRPageResult[],
+    sheets?: SheetTable[]
+  ): Promise<string | undefined> => {
     try {
       // Upload file to Supabase storage
       const fileExt = file.name.split('.').pop()
-      const fileName = `${user!.id}/${Date.now()}.${fileExt}`
+      // Files of a batch are saved side by side, so the time alone can collide
+      const fileName = `${user!.id}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`
       
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from('documents')
@@ -81,6 +188,7 @@ export function ExtractPage() {
 
       if (uploadError) {
         console.error('Upload error:', uploadError)
+        return undefined
       } else {
         // Get public URL
         const { data: { publicUrl } } = supabase.storage
@@ -88,7 +196,7 @@ export function ExtractPage() {
           .getPublicUrl(fileName)
 
         // Save extraction record
-        const { error: insertError } = await supabase
+        const { data: inserted, error: insertError } = await supabase
           .from('extractions')
           .insert({
             user_id: user!.id,
@@ -96,10 +204,17 @@ export function ExtractPage() {
             file_url: publicUrl,
             file_type: file.type,
             file_size: file.size,
+            storage_path: fileName,
+            content_hash: contentHash,
+            settings_key: key,
             extracted_text: extractedText,
+            ocr_text: extractedText,
             confidence_score: confidence,
-            processing_time: processingTime
+            processing_time: processingTime,
+            ocr_layout: pages || sheets ? { pages, sheets } : null
           })
+          .select('id')
+          .single()
 
         if (insertError) {
           console.error('Insert error:', insertError)
@@ -107,9 +222,52 @@ export function ExtractPage() {
 
         // Update user analytics
         await updateUserAnalytics(user!.id, extractedText.length, confidence)
+        return inserted?.id
+      }
+    } catch (error) {
+      console.error('Database save error:', error)
+      return undefined
+    }
+  }
+
+  // Records the upload in history without storing the file again; it points at the original's copy
+  const saveDuplicateExtraction = async (
+    file: File,
+    cached: CachedExtraction,
+    contentHash: string,
+    key: string
+  ): Promise<string | undefined> => {
+    try {
+      const { data: inserted, error: insertError } = await supabase
+        .from('extractions')
+        .insert({
+          user_id: user!.id,
+          file_name: file.name,
+          file_url: cached.file_url,
+          file_type: file.type,
+          file_size: file.size,
+          storage_path: cached.storage_path,
+          content_hash: contentHash,
+          settings_key: key,
+          duplicate_of: cached.id,
+          extracted_text: cached.ocr_text,
+          ocr_text: cached.ocr_text,
+          confidence_score: cached.confidence_score,
+          processing_time: 0,
+          ocr_layout: cached.ocr_layout
+        })
+        .select('id')
+        .single()
+
+      if (insertError) {
+        console.error('Insert error:', insertError)
       }
+
+      await updateUserAnalytics(user!.id, cached.ocr_text.length, cached.confidence_score)
+      return inserted?.id
     } catch (error) {
       console.error('Database save error:', error)
+      return undefined
     }
   }
 
@@ -167,27 +325,60 @@ export function ExtractPage() {
     }
 
     setLoading(true)
-    const newResults: ExtractionResultType[] = []
+    const batch = files.map((file, index) => ({
+      file,
+      id: `${Date.now()}-${index}`,
+      controller: new AbortController()
+    }))
+    batch.forEach(({ id, controller }) => controllers.current.set(id, controller))
+    setJobs(batch.map(({ id, file }) => ({ id, fileName: file.name, status: 'queued' })))
 
     try {
-      for (const file of files) {
+      // Files run side by side; their pages share the OCR workers and render slots, so memory stays bounded
+      const settled = await mapWithConcurrency(batch, OCR_POOL_SIZE, async ({ id, file, controller }) => {
+        if (controller.signal.aborted) {
+          return null
+        }
+        updateJob(id, { status: 'processing' })
+        
         try {
-          const result = await processFile(file)
-          newResults.push(result)
+          const result = await processFile(file, controller.signal, progress => updateJob(id, { progress }))
+          updateJob(id, { status: 'done' })
           toast.success(`Successfully extracted text from ${file.name}`)
+          return { ...result, id }
         } catch (error) {
-          toast.error(`Failed to process ${file.name}`)
+          if (error instanceof OCRCancelledError) {
+            toast(`Cancelled ${file.name}`)
+          } else {
+            updateJob(id, { status: 'failed' })
+            toast.error(`Failed to process ${file.name}`)
+          }
+          return null
+        } finally {
+          controllers.current.delete(id)
         }
-      }
+      })
+      const newResults = settled.filter((result): result is ExtractionResultType => result !== null)
       
       setResults(prev => [...newResults, ...prev])
     } finally {
       setLoading(false)
+      setJobs([])
     }
   }
 
-  const handleEnhanceText = async (text: string): Promise<string> => {
-    if (!openaiApiKey) {
+  const handleCancel = (id: string) => {
+    controllers.current.get(id)?.abort()
+    updateJob(id, { status: 'cancelled' })
+  }
+
+  const handleEnhanceText = async (
+    result: ExtractionResultType,
+    text: string,
+    onChunk?: (chunks: EnhancementChunk[]) => void,
+    presetId?: string
+  ): Promise<EnhancementResult> => {
+    if (!aiEnabled) {
       throw new Error('OpenAI API key not configured')
     }
 
@@ -195,23 +386,94 @@ export function ExtractPage() {
       throw new Error('No text to enhance')
     }
 
-    const openaiService = new OpenAIService(openaiApiKey)
+    const preset = findPreset(presets, presetId ?? defaultPresetId)
+    const instructions = renderTemplate(preset.instructions, {
+      file_name: result.fileName,
+      language: describeLanguages(result.languages),
+      document_type: describeDocumentType(result.fileName, result.fileType)
+    })
+
+    const openaiService = new OpenAIService(openaiApiKey, aiProvider)
     try {
       // Enhanced with context about being OCR-extracted text
-      const result = await openaiService.enhanceExtractedText(
+      const enhanced = await openaiService.enhanceExtractedText(
         text.trim(), 
-        'This text was extracted using OCR and may contain recognition errors'
+        { instructions, context: 'This text was extracted using OCR and may contain recognition errors' },
+        onChunk
       )
-      if (!result.enhancedText || result.enhancedText === text) {
-        throw new Error('No enhancement received')
+      // Partial failures are shown per chunk; only fail when nothing was enhanced
+      const failed = enhanced.chunks.filter(chunk => chunk.status === 'failed')
+      if (failed.length === enhanced.chunks.length) {
+        throw new Error(failed[0]?.error || 'No enhancement received')
       }
-      return result.enhancedText
+
+      // The enhancement is shown either way; only the saved version is lost
+      if (result.extractionId && user) {
+        try {
+          await addVersion(result.extractionId, 'enhancement', enhanced.enhancedText, {
+            preset: preset.name,
+            preset_id: preset.id,
+            model: aiProvider.enhanceModel,
+            base_url: aiProvider.baseUrl,
+            temperature: aiProvider.temperature,
+            max_tokens: aiProvider.maxTokens,
+            chunks: enhanced.chunks.length,
+            failed_chunks: failed.length
+          })
+        } catch (error) {
+          console.error('Error saving enhanced version:', error)
+          toast.error('Failed to save the enhanced version')
+        }
+      }
+      return enhanced
     } catch (error) {
+      // The message names the actual cause (rejected key, quota, timeout...), so it is passed on as is
       console.error('Enhancement error:', error)
-      throw new Error('Failed to enhance text. Please try again.')
+      throw error
     }
   }
 
+  const handleSaveEdit = async (result: ExtractionResultType, text: string) => {
+    // Reported rather than skipped, so an edit is never shown as saved when it wasn't
+    if (!result.extractionId || !user) throw new Error('Only saved extractions keep edits')
+    await addVersion(result.extractionId, 'edit', text)
+  }
+
+  const handleExtractFields = async (
+    result: ExtractionResultType,
+    schemaId: string,
+    text: string
+  ): Promise<StructuredData> => {
+    if (!aiEnabled) {
+      throw new Error('OpenAI API key not configured')
+    }
+
+    const schema = schemas.find(item => item.id === schemaId)
+    if (!schema) {
+      throw new Error('Schema not found')
+    }
+
+    const structured = await new OpenAIService(openaiApiKey, aiProvider).extractStructuredData(text, schema.schema)
+
+    // Keep the fields with the history entry; a failed save still shows them
+    if (result.extractionId) {
+      const { error } = await supabase
+        .from('extractions')
+        .update({
+          structured_data: structured.data,
+          structured_issues: structured.issues,
+          schema_id: schema.id
+        })
+        .eq('id', result.extractionId)
+
+      if (error) {
+        console.error('Error saving structured data:', error)
+      }
+    }
+
+    return structured
+  }
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <div className="mb-8">
@@ -223,7 +485,7 @@ export function ExtractPage() {
         </p>
       </div>
 
-      {!openaiApiKey && (
+      {!aiEnabled && (
         <div className={`mb-6 rounded-lg p-4 ${isDarkMode ? 'bg-blue-900/20 border border-blue-800' : 'bg-blue-50 border border-blue-200'}`}>
           <div className="flex">
             <AlertTriangle className="h-5 w-5 text-blue-500 flex-shrink-0" />
@@ -240,18 +502,38 @@ export function ExtractPage() {
       )}
 
       <div className="space-y-8">
-        <FileUpload onFileSelect={handleFileSelect} loading={loading} />
+        <div className={`rounded-2xl shadow-lg p-6 space-y-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+          <LanguageSelector value={languages} onChange={setLanguages} disabled={loading} />
+          <PreprocessingPanel value={preprocess} onChange={setPreprocess} disabled={loading} />
+          <label className={`flex items-center space-x-2 text-sm cursor-pointer ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={force}
+              onChange={(e) => setForce(e.target.checked)}
+              disabled={loading}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Re-run files already extracted with these settings instead of reusing the result</span>
+          </label>
+        </div>
+
+        <FileUpload onFileSelect={handleFileSelect} loading={loading} jobs={jobs} onCancel={handleCancel} />
 
         {results.length > 0 && (
           <div className="space-y-6">
             <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
               Extraction Results
             </h2>
-            {results.map((result, index) => (
+            {results.map(result => (
               <ExtractionResult
-                key={index}
+                key={result.id}
                 result={result}
-                onEnhance={handleEnhanceText}
+                onEnhance={(text, onChunk, presetId) => handleEnhanceText(result, text, onChunk, presetId)}
+                presets={presets}
+                defaultPresetId={findPreset(presets, defaultPresetId).id}
+                schemas={aiEnabled ? schemas : []}
+                onExtractFields={(schemaId, text) => handleExtractFields(result, schemaId, text)}
+                onSaveEdit={(text) => handleSaveEdit(result, text)}
               />
             ))}
           </div>
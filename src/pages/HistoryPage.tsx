@@ -2,18 +2,26 @@ import React, { useEffect, useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { useApp } from '../contexts/AppContext'
 import { supabase } from '../lib/supabase'
-import { Search, Filter, Download, Eye, Trash2, Calendar } from 'lucide-react'
+import { Search, Filter, Download, Eye, Trash2, Calendar, ExternalLink } from 'lucide-react'
 import { format } from 'date-fns'
 import toast from 'react-hot-toast'
+import type { StructuredIssue } from '../lib/schemas'
+import type { ExtractionVersion } from '../lib/versions'
+import { VersionHistory } from '../components/Versions/VersionHistory'
 
 interface Extraction {
   id: string
   file_name: string
+  file_url: string
   file_type: string
   file_size: number
   extracted_text: string
   confidence_score: number
   processing_time: number
+  duplicate_of: string | null
+  structured_data: Record<string, unknown> | null
+  structured_issues: StructuredIssue[] | null
+  current_version_id: string | null
   created_at: string
 }
 
@@ -69,6 +77,15 @@ export function HistoryPage() {
     }
   }
 
+  // extracted_text follows the current version, so the list and downloads show it
+  const handleCurrentVersionChange = (version: ExtractionVersion) => {
+    const changes = { extracted_text: version.text, current_version_id: version.id }
+    setExtractions(prev => prev.map(extraction =>
+      extraction.id === version.extraction_id ? { ...extraction, ...changes } : extraction
+    ))
+    setSelectedExtraction(prev => (prev && prev.id === version.extraction_id ? { ...prev, ...changes } : prev))
+  }
+
   const downloadText = (extraction: Extraction) => {
     const element = document.createElement('a')
     const file = new Blob([extraction.extracted_text], { type: 'text/plain' })
@@ -90,6 +107,26 @@ export function HistoryPage() {
     return matchesSearch && matchesFilter
   })
 
+  // Duplicates link to the extraction whose result they reused
+  const originals = new Map(extractions.map(extraction => [extraction.id, extraction]))
+
+  const renderDuplicateOf = (originalId: string) => {
+    const original = originals.get(originalId)
+    return (
+      <p className={`mt-1 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        Duplicate of{' '}
+        {original ? (
+          <button
+            onClick={() => setSelectedExtraction(original)}
+            className="text-blue-600 hover:underline"
+          >
+            {original.file_name} from {format(new Date(original.created_at), 'MMM dd, yyyy')}
+          </button>
+        ) : 'an earlier extraction'}
+      </p>
+    )
+  }
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-600'
     if (confidence >= 0.6) return 'text-yellow-600'
@@ -220,6 +257,7 @@ export function HistoryPage() {
                       {extraction.processing_time}ms
                     </span>
                   </div>
+                  {extraction.duplicate_of && renderDuplicateOf(extraction.duplicate_of)}
                   
                   <p className={`mt-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'} line-clamp-2`}>
                     {extraction.extracted_text.substring(0, 200)}...
@@ -278,16 +316,34 @@ export function HistoryPage() {
                 <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
                   {selectedExtraction.file_name}
                 </h2>
-                <button
-                  onClick={() => setSelectedExtraction(null)}
-                  className={`p-2 rounded-lg transition-colors duration-200 ${
-                    isDarkMode
-                      ? 'text-gray-400 hover:text-white hover:bg-gray-700'
-                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
-                  }`}
-                >
-                  ×
-                </button>
+                <div className="flex items-center space-x-2">
+                  {/* Older API extractions have a temp:// placeholder instead of a stored original */}
+                  {selectedExtraction.file_url.startsWith('http') && (
+                    <a
+                      href={selectedExtraction.file_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="Open original file"
+                      className={`p-2 rounded-lg transition-colors duration-200 ${
+                        isDarkMode
+                          ? 'text-gray-400 hover:text-white hover:bg-gray-700'
+                          : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                  <button
+                    onClick={() => setSelectedExtraction(null)}
+                    className={`p-2 rounded-lg transition-colors duration-200 ${
+                      isDarkMode
+                        ? 'text-gray-400 hover:text-white hover:bg-gray-700'
+                        : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    ×
+                  </button>
+                </div>
               </div>
             </div>
             
@@ -329,6 +385,29 @@ export function HistoryPage() {
                 </div>
               </div>
               
+              {selectedExtraction.structured_data && (
+                <div>
+                  <h3 className={`text-lg font-semibold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    Extracted Fields
+                  </h3>
+                  <div className={`p-4 rounded-lg ${isDarkMode ? 'bg-gray-900' : 'bg-gray-50'} overflow-auto`}>
+                    <pre className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'} whitespace-pre-wrap font-mono`}>
+                      {JSON.stringify(selectedExtraction.structured_data, null, 2)}
+                    </pre>
+                  </div>
+                  {selectedExtraction.structured_issues && selectedExtraction.structured_issues.length > 0 && (
+                    <ul className={`mt-2 space-y-1 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {selectedExtraction.structured_issues.map(issue => (
+                        <li key={`${issue.kind}:${issue.path}`}>
+                          <code className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>{issue.path}</code>
+                          {' '}{issue.kind}: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h3 className={`text-lg font-semibold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
                   Extracted Text
@@ -339,6 +418,16 @@ export function HistoryPage() {
                   </pre>
                 </div>
               </div>
+
+              <div>
+                <h3 className={`text-lg font-semibold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                  Versions
+                </h3>
+                <VersionHistory
+                  extractionId={selectedExtraction.id}
+                  onCurrentChange={handleCurrentVersionChange}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -1,20 +1,33 @@
 import React, { useState } from 'react'
 import { useApp } from '../contexts/AppContext'
 import { useAuth } from '../contexts/AuthContext'
-import { Key, User, Palette, Database, Shield, Save } from 'lucide-react'
+import { Key, User, Palette, Database, Shield, Save, ScanText } from 'lucide-react'
+import { LanguageSelector } from '../components/Extract/LanguageSelector'
+import { ApiKeySettings } from '../components/Settings/ApiKeySettings'
+import { WebhookSettings } from '../components/Settings/WebhookSettings'
+import { SchemaSettings } from '../components/Settings/SchemaSettings'
+import { AIProviderSettings } from '../components/Settings/AIProviderSettings'
+import { PresetSettings } from '../components/Settings/PresetSettings'
+import { OCRLanguageSelection } from '../lib/ocr'
 import toast from 'react-hot-toast'
 
 export function SettingsPage() {
-  const { openaiApiKey, setOpenaiApiKey, isDarkMode, toggleDarkMode } = useApp()
+  const { openaiApiKey, setOpenaiApiKey, ocrLanguages, setOcrLanguages, isDarkMode, toggleDarkMode } = useApp()
   const { user } = useAuth()
   const [apiKey, setApiKey] = useState(openaiApiKey)
   const [showApiKey, setShowApiKey] = useState(false)
+  const [languages, setLanguages] = useState<OCRLanguageSelection>(ocrLanguages)
 
   const handleSaveApiKey = () => {
     setOpenaiApiKey(apiKey)
     toast.success('OpenAI API key saved successfully!')
   }
 
+  const handleSaveLanguages = () => {
+    setOcrLanguages(languages)
+    toast.success('OCR languages saved successfully!')
+  }
+
   const maskApiKey = (key: string) => {
     if (!key) return ''
     if (key.length <= 8) return key
@@ -98,7 +111,7 @@ export function SettingsPage() {
                 </button>
               </div>
               <p className={`mt-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                Your OpenAI API key is required for text extraction from images and text enhancement.
+                Your OpenAI API key, or the key for the endpoint set under AI Provider, is required for text enhancement and field extraction.
                 {openaiApiKey && (
                   <span className="block mt-1">
                     Current key: {maskApiKey(openaiApiKey)}
@@ -118,6 +131,46 @@ export function SettingsPage() {
           </div>
         </div>
 
+        {/* AI Provider */}
+        <AIProviderSettings />
+
+        {/* Enhancement Presets */}
+        <PresetSettings />
+
+        {/* OCR Configuration */}
+        <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+          <div className="flex items-center space-x-3 mb-4">
+            <ScanText className={`h-5 w-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+            <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+              OCR Configuration
+            </h2>
+          </div>
+          
+          <div className="space-y-4">
+            <LanguageSelector value={languages} onChange={setLanguages} />
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Default languages for new uploads. You can still change them per upload on the Extract page.
+            </p>
+            
+            <button
+              onClick={handleSaveLanguages}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-200"
+            >
+              <Save className="h-4 w-4" />
+              <span>Save Languages</span>
+            </button>
+          </div>
+        </div>
+
+        {/* API Keys */}
+        <ApiKeySettings />
+
+        {/* Webhooks */}
+        <WebhookSettings />
+
+        {/* Extraction Schemas */}
+        <SchemaSettings />
+
         {/* Appearance */}
         <div className={`rounded-xl shadow-sm p-6 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
           <div className="flex items-center space-x-3 mb-4">
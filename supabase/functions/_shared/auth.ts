@@ -0,0 +1,83 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { encodeHex } from 'jsr:@std/encoding@1/hex'
+
+export type ApiKeyScope = 'read' | 'extract'
+
+export interface AuthContext {
+  userId: string
+  method: 'jwt' | 'api_key'
+  // Session tokens carry every scope; API keys only those they were created with
+  scopes: ApiKeyScope[]
+}
+
+// Carries the HTTP status to answer with: 401 for missing or bad credentials, 403 for a missing scope
+export class AuthError extends Error {
+  status: number
+
+  constructor(message: string, status = 401) {
+    super(message)
+    this.name = 'AuthError'
+    this.status = status
+  }
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+  return encodeHex(new Uint8Array(digest))
+}
+
+/**
+ * Identify the caller from an `x-api-key` header or a Supabase session JWT
+ * in `Authorization`, and check it may use `scope`. The API key wins when both
+ * are sent, since the gateway may require the anon key as a bearer token.
+ */
+export async function authenticate(
+  req: Request,
+  supabase: SupabaseClient,
+  scope: ApiKeyScope
+): Promise<AuthContext> {
+  const apiKey = req.headers.get('x-api-key')
+
+  if (apiKey) {
+    const { data: key, error } = await supabase
+      .from('api_keys')
+      .select('id, user_id, scopes')
+      .eq('key_hash', await hashApiKey(apiKey))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (error) {
+      console.error('API key lookup error:', error)
+      throw new AuthError('Failed to verify API key', 500)
+    }
+    if (!key) {
+      throw new AuthError('Invalid or revoked API key')
+    }
+    if (!key.scopes.includes(scope)) {
+      throw new AuthError(`API key is missing the "${scope}" scope`, 403)
+    }
+
+    // Bookkeeping only, the request does not wait for it
+    supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', key.id)
+      .then(({ error: updateError }) => {
+        if (updateError) console.error('API key last_used_at update error:', updateError)
+      })
+
+    return { userId: key.user_id, method: 'api_key', scopes: key.scopes }
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    throw new AuthError('Missing credentials: send an x-api-key header or a Bearer session token')
+  }
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) {
+    throw new AuthError('Invalid or expired session token')
+  }
+
+  return { userId: data.user.id, method: 'jwt', scopes: ['read', 'extract'] }
+}
@@ -0,0 +1,330 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64'
+import { getDocumentKind, OcrUnavailableError, parseDocument, ParsedPage, ParsedSheet } from './parsers.ts'
+import { createOcrProvider, OcrProvider, OcrProviderConfigError, OcrProviderName, resolveOcrProviderName } from './providers.ts'
+import { aiProviderFromEnv, OpenAIService } from './openai.ts'
+import { LLMError } from './llm.ts'
+import { compileSchema, JsonSchema, SchemaError, StructuredData } from './structured.ts'
+
+export interface ExtractionOptions {
+  file_name: string
+  file_type: string
+  openai_api_key?: string
+  enhance_text?: boolean
+  // OCR engine for images and scanned pages: openai, tesseract or openai-compatible
+  provider?: string
+  ocr_language?: string
+  ocr_model?: string
+}
+
+export interface ExtractionOutcome {
+  extracted_text: string
+  confidence_score: number
+  ocr_provider?: OcrProviderName
+  pages?: ParsedPage[]
+  sheets?: ParsedSheet[]
+  // Why enhance_text was requested but the text is unenhanced
+  enhancement_error?: string
+}
+
+// Problems with the request itself (unsupported type, missing key, unknown schema), reported as 4xx
+export class ExtractionRequestError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'ExtractionRequestError'
+    this.status = status
+  }
+}
+
+/**
+ * Extract text from one file. Shared by the synchronous extract-text endpoint
+ * and background jobs so both produce identical results. The result is the
+ * raw OCR text; see enhanceOutcome for enhance_text.
+ */
+export async function runExtraction(
+  bytes: Uint8Array,
+  options: ExtractionOptions,
+  onProgress?: (fraction: number) => void
+): Promise<ExtractionOutcome> {
+  const kind = getDocumentKind(options.file_type, options.file_name)
+  if (!kind) {
+    throw new ExtractionRequestError(`Unsupported file type: ${options.file_type}`)
+  }
+
+  // A misconfigured provider only matters once something actually needs OCR
+  let ocrProvider: OcrProvider | null = null
+  let providerError: OcrProviderConfigError | null = null
+  try {
+    ocrProvider = createOcrProvider(options)
+  } catch (error) {
+    if (!(error instanceof OcrProviderConfigError)) throw error
+    providerError = error
+  }
+
+  let outcome: ExtractionOutcome
+
+  if (kind === 'image') {
+    if (!ocrProvider) {
+      throw new ExtractionRequestError(providerError!.message)
+    }
+
+    const result = await ocrProvider.recognize(encodeBase64(bytes), options.file_type)
+    outcome = {
+      extracted_text: result.text,
+      confidence_score: result.confidence,
+      ocr_provider: ocrProvider.name
+    }
+  } else {
+    try {
+      const parsed = await parseDocument(
+        bytes,
+        kind,
+        ocrProvider ? ocrProvider.recognize.bind(ocrProvider) : undefined,
+        onProgress
+      )
+      outcome = {
+        extracted_text: parsed.text,
+        confidence_score: parsed.confidence,
+        ocr_provider: parsed.pages?.some(page => page.method === 'ocr') ? ocrProvider?.name : undefined,
+        pages: parsed.pages,
+        sheets: parsed.sheets
+      }
+    } catch (parseError) {
+      if (!(parseError instanceof OcrUnavailableError)) throw parseError
+      throw new ExtractionRequestError(`${parseError.message}. ${providerError?.message}`)
+    }
+  }
+
+  return outcome
+}
+
+/**
+ * Apply enhance_text to an extraction's OCR text. Kept apart from
+ * runExtraction so reused results, which hold only the raw OCR text, are
+ * enhanced the same way. A failure keeps the OCR text and says why.
+ */
+export async function enhanceOutcome(
+  outcome: ExtractionOutcome,
+  options: ExtractionOptions
+): Promise<ExtractionOutcome> {
+  if (!options.enhance_text || !options.openai_api_key || !outcome.extracted_text) return outcome
+
+  try {
+    const enhanced = await new OpenAIService(options.openai_api_key).enhanceText(outcome.extracted_text)
+    return {
+      ...outcome,
+      extracted_text: enhanced.enhancedText,
+      confidence_score: Math.max(outcome.confidence_score, enhanced.confidence)
+    }
+  } catch (error) {
+    if (!(error instanceof LLMError)) throw error
+    console.error('Enhancement error:', error)
+    return { ...outcome, enhancement_error: error.message }
+  }
+}
+
+/**
+ * Canonical form of the options that change an extraction's OCR result.
+ * Stored as settings_key next to the content hash so a repeated upload can
+ * reuse it. Enhancement isn't part of it: it runs again on reused text.
+ */
+export function settingsKey(options: ExtractionOptions): string {
+  const provider = resolveOcrProviderName(options)
+  const ai = aiProviderFromEnv()
+  return JSON.stringify({
+    engine: 'edge',
+    provider,
+    ocr_language: provider === 'tesseract' ? options.ocr_language || Deno.env.get('OCR_DEFAULT_LANGUAGE') || 'eng' : null,
+    ocr_model: provider === 'openai-compatible'
+      ? options.ocr_model || Deno.env.get('OCR_COMPATIBLE_MODEL') || null
+      : provider === 'openai' ? ai.visionModel : null
+  })
+}
+
+// A page as ocr_layout stores it, the shape the web app writes (OCRPageResult in src/lib/ocr.ts).
+// The API reports pages in snake_case without layout blocks, which the edge parsers don't produce.
+interface LayoutPage {
+  pageNumber: number
+  text: string
+  confidence: number
+  method: ParsedPage['method']
+  width?: number
+  height?: number
+  blocks: unknown[]
+}
+
+const toLayoutPage = (page: ParsedPage): LayoutPage => ({
+  pageNumber: page.page_number,
+  text: page.text,
+  confidence: page.confidence,
+  method: page.method,
+  blocks: []
+})
+
+const fromLayoutPage = (page: LayoutPage): ParsedPage => ({
+  page_number: page.pageNumber,
+  text: page.text,
+  confidence: page.confidence,
+  method: page.method
+})
+
+export interface CachedExtraction {
+  id: string
+  file_url: string
+  storage_path: string | null
+  outcome: ExtractionOutcome
+}
+
+/**
+ * Find the latest extraction that actually ran (not itself a duplicate) for
+ * the same user, file content and settings. A failed lookup counts as a miss.
+ */
+export async function findCachedExtraction(
+  supabase: SupabaseClient,
+  userId: string,
+  contentHash: string,
+  settingsKey: string
+): Promise<CachedExtraction | null> {
+  const { data, error } = await supabase
+    .from('extractions')
+    .select('id, file_url, storage_path, ocr_text, confidence_score, ocr_layout')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .eq('settings_key', settingsKey)
+    .is('duplicate_of', null)
+    .not('ocr_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Cache lookup error:', error)
+    return null
+  }
+  if (!data) return null
+
+  return {
+    id: data.id,
+    file_url: data.file_url,
+    storage_path: data.storage_path,
+    // The raw OCR text; extracted_text may have been enhanced or edited since
+    outcome: {
+      extracted_text: data.ocr_text,
+      confidence_score: data.confidence_score,
+      pages: data.ocr_layout?.pages?.map(fromLayoutPage),
+      sheets: data.ocr_layout?.sheets
+    }
+  }
+}
+
+export interface StructuredRequest {
+  openai_api_key?: string
+  // Inline JSON Schema; multipart requests send it as a JSON string
+  schema?: JsonSchema | string
+  // Id of one of the caller's saved extraction_schemas
+  schema_id?: string
+}
+
+/**
+ * Resolve the schema for structured extraction, inline or saved, and compile
+ * it so a broken schema is rejected before any work is done. Returns null
+ * when the request asks for no structured data.
+ */
+export async function resolveSchema(
+  supabase: SupabaseClient,
+  userId: string,
+  request: StructuredRequest
+): Promise<{ schema: JsonSchema; schema_id?: string } | null> {
+  if (!request.schema && !request.schema_id) return null
+
+  if (!request.openai_api_key) {
+    throw new ExtractionRequestError('OpenAI API key required for structured extraction')
+  }
+
+  let schema: JsonSchema
+  if (request.schema_id) {
+    const { data, error } = await supabase
+      .from('extraction_schemas')
+      .select('schema')
+      .eq('id', request.schema_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load schema: ${error.message}`)
+    if (!data) throw new ExtractionRequestError('Schema not found', 404)
+    schema = data.schema
+  } else if (typeof request.schema === 'string') {
+    try {
+      schema = JSON.parse(request.schema)
+    } catch {
+      throw new ExtractionRequestError('schema is not valid JSON')
+    }
+  } else {
+    schema = request.schema as JsonSchema
+  }
+
+  try {
+    compileSchema(schema)
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error
+    throw new ExtractionRequestError(error.message)
+  }
+
+  return { schema, schema_id: request.schema_id }
+}
+
+/**
+ * Record a finished extraction for a user. Returns the new row id, or
+ * undefined when saving failed; a failed save never fails the extraction.
+ */
+export async function saveExtraction(
+  supabase: SupabaseClient,
+  record: {
+    user_id: string
+    file_name: string
+    file_url: string
+    file_type: string
+    file_size: number
+    processing_time: number
+    storage_path?: string
+    content_hash?: string
+    settings_key?: string
+    duplicate_of?: string
+    schema_id?: string
+    structured?: StructuredData
+    // Text before enhancement, kept for reuse; defaults to the outcome's text
+    ocr_text?: string
+    outcome: ExtractionOutcome
+  }
+): Promise<string | undefined> {
+  const { outcome, structured, ocr_text, ...file } = record
+
+  try {
+    const { data, error } = await supabase
+      .from('extractions')
+      .insert({
+        ...file,
+        extracted_text: outcome.extracted_text,
+        ocr_text: ocr_text ?? outcome.extracted_text,
+        confidence_score: outcome.confidence_score,
+        ocr_layout: outcome.pages || outcome.sheets
+          ? { pages: outcome.pages?.map(toLayoutPage), sheets: outcome.sheets }
+          : null,
+        structured_data: structured?.data ?? null,
+        structured_issues: structured?.issues ?? null
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Database insert error:', error)
+      return undefined
+    }
+    return data?.id
+  } catch (dbError) {
+    console.error('Database error:', dbError)
+    return undefined
+  }
+}
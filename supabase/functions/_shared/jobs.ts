@@ -0,0 +1,45 @@
+import { decodeBase64, encodeBase64 } from 'jsr:@std/encoding@1/base64'
+
+// Submitted files wait here until the worker has processed them
+export const JOB_UPLOAD_BUCKET = 'job-uploads'
+
+// A running job must renew its lease within this long or it is failed as abandoned
+export const JOB_LEASE_SECONDS = 90
+
+/**
+ * AES-GCM key for the API keys of queued jobs, derived from the service role
+ * key: anyone holding that can read every job anyway, and no extra secret has
+ * to be configured.
+ */
+async function sealingKey(): Promise<CryptoKey> {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const material = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`extraction-job-secrets:${serviceKey}`)
+  )
+  return crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+}
+
+// The IV is stored in front of the ciphertext
+export async function sealSecret(secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await sealingKey(),
+    new TextEncoder().encode(secret)
+  )
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength)
+  sealed.set(iv)
+  sealed.set(new Uint8Array(ciphertext), iv.length)
+  return encodeBase64(sealed)
+}
+
+export async function openSecret(sealed: string): Promise<string> {
+  const bytes = decodeBase64(sealed)
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, 12) },
+    await sealingKey(),
+    bytes.slice(12)
+  )
+  return new TextDecoder().decode(plaintext)
+}
@@ -0,0 +1,261 @@
+/**
+ * Chat completions client shared by the AI features. Adds a timeout per
+ * attempt, retries 429s, 5xx responses and network failures with exponential
+ * backoff (honouring Retry-After), and turns failures into typed errors whose
+ * messages say what actually went wrong.
+ *
+ * The web app imports this same module through src/lib/llm.ts, so it must
+ * stay free of imports and of anything only Deno or only browsers provide.
+ */
+
+const DEFAULT_TIMEOUT_MS = 60_000
+const DEFAULT_MAX_RETRIES = 3
+const BACKOFF_BASE_MS = 1_000
+const BACKOFF_MAX_MS = 20_000
+// A Retry-After longer than this gives up instead of keeping the user waiting
+const RETRY_AFTER_MAX_MS = 60_000
+
+export class LLMError extends Error {
+  // Status of the provider's response, when there was one
+  status?: number
+  retryable: boolean
+  // From Retry-After; replaces the backoff before the next attempt
+  retryAfterMs?: number | null
+
+  constructor(message: string, status?: number, retryable = false) {
+    super(message)
+    this.name = 'LLMError'
+    this.status = status
+    this.retryable = retryable
+  }
+}
+
+// Missing, invalid or expired key, or no access to the model
+export class LLMAuthError extends LLMError {
+  constructor(message: string, status?: number) {
+    super(message, status)
+    this.name = 'LLMAuthError'
+  }
+}
+
+// Out of credit, or still rate limited after all retries
+export class LLMQuotaError extends LLMError {
+  constructor(message: string, status?: number) {
+    super(message, status)
+    this.name = 'LLMQuotaError'
+  }
+}
+
+// The prompt plus max_tokens doesn't fit the model's context window
+export class LLMContextLengthError extends LLMError {
+  constructor(message: string, status?: number) {
+    super(message, status)
+    this.name = 'LLMContextLengthError'
+  }
+}
+
+// The provider's safety filter refused the input or cut off the output
+export class LLMContentFilterError extends LLMError {
+  constructor(message: string, status?: number) {
+    super(message, status)
+    this.name = 'LLMContentFilterError'
+  }
+}
+
+// The provider couldn't be reached or didn't answer in time
+export class LLMNetworkError extends LLMError {
+  constructor(message: string) {
+    super(message, undefined, true)
+    this.name = 'LLMNetworkError'
+  }
+}
+
+export interface LLMClientOptions {
+  baseUrl: string
+  apiKey: string
+  // Azure OpenAI: sent as api-version, with the key in an api-key header
+  apiVersion?: string
+  timeoutMs?: number
+  maxRetries?: number
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | Array<Record<string, unknown>>
+}
+
+export interface ChatCompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  max_tokens?: number
+  temperature?: number
+  response_format?: { type: 'json_object' | 'text' }
+}
+
+interface CompletionResponse {
+  choices?: Array<{
+    finish_reason?: string | null
+    message?: { content?: string | null }
+  }>
+}
+
+export interface ChatCompletion {
+  content: string
+  // 'stop', or 'length' when the reply hit max_tokens
+  finishReason: string | null
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms)
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer)
+    reject(signal.reason)
+  }, { once: true })
+})
+
+// Retry-After is seconds or an HTTP date; OpenAI and Azure also send retry-after-ms
+const retryAfterMs = (headers: Headers): number | null => {
+  const ms = Number(headers.get('retry-after-ms'))
+  if (headers.get('retry-after-ms') && Number.isFinite(ms)) return ms
+
+  const value = headers.get('retry-after')
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+const backoffMs = (attempt: number) =>
+  Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt) * (0.5 + Math.random() / 2)
+
+/**
+ * Map an error response to a typed error. Providers differ in where they put
+ * the reason, so the code, type and message are all checked.
+ */
+const classifyResponse = async (response: Response): Promise<LLMError> => {
+  const body = await response.json().catch(() => null)
+  const error = body?.error ?? {}
+  const code = `${error.code ?? ''} ${error.type ?? ''}`.toLowerCase()
+  const detail: string = error.message || response.statusText || 'no details'
+  const status = response.status
+
+  if (status === 401 || status === 403) {
+    return new LLMAuthError(`The AI provider rejected the API key (${status}): ${detail}`, status)
+  }
+  if (code.includes('insufficient_quota') || code.includes('billing')) {
+    return new LLMQuotaError(`The AI provider's quota is used up: ${detail}`, status)
+  }
+  if (status === 429) {
+    return new LLMError(`The AI provider is rate limiting requests: ${detail}`, status, true)
+  }
+  if (code.includes('context_length') || /maximum context length|too many tokens|context window/i.test(detail)) {
+    return new LLMContextLengthError(`The text is too long for the model: ${detail}`, status)
+  }
+  if (code.includes('content_filter') || code.includes('content_policy')) {
+    return new LLMContentFilterError(`The AI provider's content filter blocked the request: ${detail}`, status)
+  }
+  if (status >= 500) {
+    return new LLMError(`The AI provider failed (${status}): ${detail}`, status, true)
+  }
+  return new LLMError(`The AI provider returned ${status}: ${detail}`, status)
+}
+
+const errorFromResponse = async (response: Response): Promise<LLMError> => {
+  const error = await classifyResponse(response)
+  error.retryAfterMs = retryAfterMs(response.headers)
+  return error
+}
+
+export class LLMClient {
+  private options: Required<LLMClientOptions>
+
+  constructor(options: LLMClientOptions) {
+    this.options = {
+      apiVersion: '',
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      maxRetries: DEFAULT_MAX_RETRIES,
+      ...options
+    }
+  }
+
+  private get url(): string {
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+    return this.options.apiVersion ? `${url}?api-version=${encodeURIComponent(this.options.apiVersion)}` : url
+  }
+
+  private get headers(): Record<string, string> {
+    // Self-hosted servers often run without authentication
+    if (!this.options.apiKey) return { 'Content-Type': 'application/json' }
+    return this.options.apiVersion
+      ? { 'Content-Type': 'application/json', 'api-key': this.options.apiKey }
+      : { 'Content-Type': 'application/json', 'Authorization': `Bearer ${this.options.apiKey}` }
+  }
+
+  // One attempt, with its own timeout; aborting `signal` cancels it without retrying
+  private async attempt(body: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion> {
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, this.options.timeoutMs)
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    let data: CompletionResponse
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(body),
+        signal: controller.signal
+      })
+      if (!response.ok) throw await errorFromResponse(response)
+      data = await response.json()
+    } catch (error) {
+      if (error instanceof LLMError || signal?.aborted) throw error
+      if (timedOut) {
+        throw new LLMNetworkError(`The AI provider did not answer within ${Math.round(this.options.timeoutMs / 1000)}s`)
+      }
+      throw new LLMNetworkError(
+        `Could not reach the AI provider at ${new URL(this.url).host}: ${error instanceof Error ? error.message : 'network error'}`
+      )
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    const choice = data?.choices?.[0]
+    if (choice?.finish_reason === 'content_filter') {
+      throw new LLMContentFilterError("The AI provider's content filter stopped the reply")
+    }
+    return { content: choice?.message?.content || '', finishReason: choice?.finish_reason ?? null }
+  }
+
+  /**
+   * Create a chat completion. Retryable failures are retried up to
+   * maxRetries times; the last error is thrown when they all fail.
+   */
+  async chat(body: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(body, signal)
+      } catch (error) {
+        if (!(error instanceof LLMError) || !error.retryable || attempt >= this.options.maxRetries) {
+          // Still rate limited after every retry: as far as the user is concerned the quota is exhausted
+          if (error instanceof LLMError && error.status === 429) {
+            throw new LLMQuotaError(`${error.message} (gave up after ${attempt + 1} attempts)`, 429)
+          }
+          throw error
+        }
+
+        const wait = error.retryAfterMs ?? backoffMs(attempt)
+        if (wait > RETRY_AFTER_MAX_MS) {
+          throw error.status === 429 ? new LLMQuotaError(error.message, 429) : error
+        }
+        await sleep(wait, signal)
+      }
+    }
+  }
+}
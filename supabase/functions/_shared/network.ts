@@ -0,0 +1,136 @@
+/**
+ * Guards for URLs the functions fetch on a caller's behalf (source_url
+ * downloads, webhook deliveries), so they can't be pointed at loopback,
+ * private networks or cloud metadata endpoints.
+ */
+
+export class PublicUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PublicUrlError'
+  }
+}
+
+/**
+ * Check that a URL uses an allowed scheme and that its host resolves only to
+ * public addresses. Redirects must be followed by hand and every hop checked
+ * again; `fetch` must never follow them on its own.
+ */
+export async function assertPublicUrl(url: URL, label: string, protocols = ['https:', 'http:']) {
+  if (!protocols.includes(url.protocol)) {
+    throw new PublicUrlError(`${label} must use ${protocols.map(protocol => protocol.slice(0, -1)).join(' or ')}`)
+  }
+  if (url.username || url.password) {
+    throw new PublicUrlError(`${label} must not contain credentials`)
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal') || hostname.endsWith('.local')) {
+    throw new PublicUrlError(`${label} must point to a public host`)
+  }
+
+  let addresses: string[]
+  if (isIpLiteral(hostname)) {
+    addresses = [hostname]
+  } else {
+    // Checked before connecting; a host that re-resolves in between is the accepted residual risk
+    const results = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A'),
+      Deno.resolveDns(hostname, 'AAAA')
+    ])
+    addresses = results.flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+    if (addresses.length === 0) {
+      throw new PublicUrlError(`Could not resolve ${hostname}`)
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new PublicUrlError(`${label} must point to a public host`)
+  }
+}
+
+const isIpLiteral = (hostname: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.includes(':')
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null
+  return parts.map(Number)
+}
+
+// The 16 bytes of an IPv6 address, or null when it doesn't parse
+function parseIPv6(address: string): number[] | null {
+  let ip = address.toLowerCase().replace(/%.*$/, '')
+
+  // A trailing dotted quad (::ffff:1.2.3.4) stands for the last two groups
+  const quad = ip.match(/^(.*:)(\d{1,3}(?:\.\d{1,3}){3})$/)
+  if (quad) {
+    const v4 = parseIPv4(quad[2])
+    if (!v4) return null
+    ip = `${quad[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`
+  }
+
+  const halves = ip.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail]
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224 // multicast and reserved
+}
+
+const startsWith = (bytes: number[], prefix: number[]) => prefix.every((byte, index) => bytes[index] === byte)
+
+/**
+ * Whether an address is anything but public unicast. IPv6 forms that carry
+ * an IPv4 address (mapped, compatible, NAT64, 6to4) are judged by that
+ * address, whichever way they are written; addresses that don't parse are
+ * treated as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (!address.includes(':')) {
+    const v4 = parseIPv4(address)
+    return !v4 || isPrivateIPv4(v4)
+  }
+
+  const bytes = parseIPv6(address)
+  if (!bytes) return true
+
+  const zeros = (count: number) => Array(count).fill(0)
+  // ::ffff:0:0/96 mapped and ::/96 compatible, which also covers :: and ::1
+  if (startsWith(bytes, [...zeros(10), 0xff, 0xff]) || startsWith(bytes, zeros(12))) {
+    return isPrivateIPv4(bytes.slice(12))
+  }
+  // 64:ff9b::/96 well-known NAT64 prefix
+  if (startsWith(bytes, [0x00, 0x64, 0xff, 0x9b, ...zeros(8)])) {
+    return isPrivateIPv4(bytes.slice(12))
+  }
+  // 2002::/16 6to4 carries the IPv4 address in the next 32 bits
+  if (startsWith(bytes, [0x20, 0x02])) {
+    return isPrivateIPv4(bytes.slice(2, 6))
+  }
+
+  return startsWith(bytes, [0x00, 0x64, 0xff, 0x9b]) || // 64:ff9b::/32, including local-use NAT64 64:ff9b:1::/48
+    startsWith(bytes, [0x20, 0x01, 0x00, 0x00]) || // Teredo 2001::/32, tunnels to arbitrary IPv4
+    (bytes[0] & 0xfe) === 0xfc || // unique local fc00::/7
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || // link-local fe80::/10
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0xc0) || // deprecated site-local fec0::/10
+    bytes[0] === 0xff // multicast
+}
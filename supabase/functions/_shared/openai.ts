@@ -0,0 +1,189 @@
+import {
+  checkStructuredReply,
+  compileSchema,
+  finalizeStructuredData,
+  JsonSchema,
+  STRUCTURED_MAX_ATTEMPTS,
+  StructuredData,
+  structuredRetryPrompt,
+  structuredSystemPrompt
+} from './structured.ts'
+import { ChatMessage, LLMClient, LLMError } from './llm.ts'
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+
+// Mirrors AIProviderConfig in src/lib/openai.ts
+export interface AIProviderConfig {
+  baseUrl: string
+  // Azure OpenAI: sent as api-version, with the key in an api-key header
+  apiVersion: string
+  enhanceModel: string
+  visionModel: string
+  temperature: number
+  maxTokens: number
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name))
+  return Deno.env.get(name) && Number.isFinite(value) ? value : fallback
+}
+
+/**
+ * Server-wide defaults for the openai provider and text enhancement. Like the
+ * openai-compatible OCR settings they only come from the environment, so
+ * callers cannot point the function at arbitrary hosts.
+ */
+export function aiProviderFromEnv(): AIProviderConfig {
+  return {
+    baseUrl: Deno.env.get('OPENAI_BASE_URL') || OPENAI_BASE_URL,
+    apiVersion: Deno.env.get('OPENAI_API_VERSION') || '',
+    enhanceModel: Deno.env.get('OPENAI_ENHANCE_MODEL') || 'gpt-4o',
+    visionModel: Deno.env.get('OPENAI_VISION_MODEL') || 'gpt-4o',
+    temperature: numberFromEnv('OPENAI_TEMPERATURE', 0.2),
+    maxTokens: numberFromEnv('OPENAI_MAX_TOKENS', 4000)
+  }
+}
+
+/**
+ * Chat completions client. Also talks to OpenAI-compatible servers (vLLM,
+ * Ollama, LM Studio, gateways, Azure OpenAI...) given their base URL and
+ * model names; anything not passed comes from aiProviderFromEnv.
+ */
+export class OpenAIService {
+  private config: AIProviderConfig
+  private client: LLMClient
+
+  constructor(apiKey: string, config: Partial<AIProviderConfig> = {}) {
+    this.config = { ...aiProviderFromEnv(), ...config }
+    this.client = new LLMClient({ baseUrl: this.config.baseUrl, apiKey, apiVersion: this.config.apiVersion })
+  }
+
+  async extractTextFromImage(imageBase64: string, mimeType = 'image/jpeg'): Promise<{ text: string; confidence: number }> {
+    try {
+      const completion = await this.client.chat({
+        model: this.config.visionModel,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: 'Extract all text from this image. Preserve formatting, structure, and layout as much as possible. If the image contains tables, maintain the table structure. Return only the extracted text without any additional commentary.'
+              },
+              {
+                type: 'image_url',
+                image_url: {
+                  url: `data:${mimeType};base64,${imageBase64}`
+                }
+              }
+            ]
+          }
+        ],
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature
+      })
+      const extractedText = completion.content
+      
+      // Calculate confidence based on response quality
+      const confidence = this.calculateConfidence(extractedText)
+      
+      return { text: extractedText, confidence }
+    } catch (error) {
+      console.error('Error extracting text with OpenAI:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Clean up extracted text. Throws LLMError subclasses when the provider
+   * fails, and an LLMError when the reply was cut off, instead of passing off
+   * the original text as enhanced.
+   */
+  async enhanceText(text: string): Promise<{ enhancedText: string; confidence: number }> {
+    const completion = await this.client.chat({
+      model: this.config.enhanceModel,
+      messages: [
+        {
+          role: 'user',
+          content: `Please clean up and enhance this extracted text while preserving its original meaning and structure. Fix any OCR errors, correct spelling mistakes, and improve formatting while maintaining the original layout and content structure:\n\n${text}`
+        }
+      ],
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature
+    })
+
+    if (completion.finishReason === 'length') {
+      throw new LLMError('The enhanced text was cut off at OPENAI_MAX_TOKENS')
+    }
+    if (!completion.content.trim()) {
+      throw new LLMError('The model returned an empty reply')
+    }
+    return { enhancedText: completion.content, confidence: 0.95 }
+  }
+
+  async extractStructuredData(text: string, schema: JsonSchema): Promise<StructuredData> {
+    // Throws SchemaError before any tokens are spent on a broken schema
+    const validators = compileSchema(schema)
+    const messages: ChatMessage[] = [
+      { role: 'system', content: structuredSystemPrompt(schema) },
+      { role: 'user', content: `Document:\n${text}` }
+    ]
+
+    let reply: Record<string, unknown> | null = null
+    let attempts = 0
+
+    while (attempts < STRUCTURED_MAX_ATTEMPTS) {
+      attempts++
+
+      const { content } = await this.client.chat({
+        // JSON mode needs gpt-4-turbo or later, or a server that supports response_format
+        model: this.config.enhanceModel,
+        messages,
+        response_format: { type: 'json_object' },
+        max_tokens: this.config.maxTokens,
+        // Always deterministic, whatever the configured temperature
+        temperature: 0
+      })
+      messages.push({ role: 'assistant', content })
+
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(content)
+      } catch {
+        messages.push({ role: 'user', content: structuredRetryPrompt(['the reply is not valid JSON']) })
+        continue
+      }
+
+      // The latest object is kept even if it fails, so its valid fields survive the last attempt
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        reply = parsed as Record<string, unknown>
+      }
+      const problems = checkStructuredReply(validators, parsed)
+      if (problems.length === 0) break
+
+      messages.push({ role: 'user', content: structuredRetryPrompt(problems) })
+    }
+
+    if (!reply) {
+      throw new Error(`No valid JSON object after ${attempts} attempts`)
+    }
+    return finalizeStructuredData(validators, reply, attempts)
+  }
+
+  private calculateConfidence(text: string): number {
+    if (!text || text.length < 10) return 0.3
+    
+    const wordCount = text.split(/\s+/).length
+    const hasStructure = /[.!?]/.test(text)
+    const hasNumbers = /\d/.test(text)
+    const specialChars = (text.match(/[^\w\s]/g) || []).length
+    
+    let confidence = 0.5
+    if (wordCount > 20) confidence += 0.2
+    if (hasStructure) confidence += 0.15
+    if (hasNumbers) confidence += 0.1
+    if (specialChars > 5) confidence += 0.05
+    
+    return Math.min(confidence, 0.98)
+  }
+}
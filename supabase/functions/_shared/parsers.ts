@@ -0,0 +1,426 @@
+import { extractImages, extractText, getDocumentProxy } from 'npm:unpdf@1.8.1'
+import { strFromU8, unzipSync } from 'npm:fflate@0.8.3'
+// SheetJS no longer publishes to npm; 0.18.5, the last version there, has known vulnerabilities
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs'
+import { encode as encodePng } from 'npm:fast-png@8.0.0'
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64'
+
+export type DocumentKind = 'image' | 'pdf' | 'docx' | 'spreadsheet' | 'csv' | 'text'
+
+export type ImageOcr = (imageBase64: string, mimeType: string) => Promise<{ text: string; confidence: number }>
+
+export interface ParsedPage {
+  page_number: number
+  text: string
+  confidence: number
+  method: 'text-layer' | 'ocr'
+}
+
+export interface ParsedSheetCell {
+  address: string
+  row: number
+  column: number
+  value: string | number | boolean | null
+  text: string
+}
+
+export interface ParsedSheet {
+  name: string
+  range: string
+  rows: ParsedSheetCell[][]
+}
+
+export interface ParsedDocument {
+  text: string
+  confidence: number
+  pages?: ParsedPage[]
+  sheets?: ParsedSheet[]
+}
+
+// Raised when a document needs OCR but the request did not supply a way to run it
+export class OcrUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OcrUnavailableError'
+  }
+}
+
+// Same minimum the web app uses; it also checks images per character, which can't be counted here
+const MIN_TEXT_LAYER_CHARS = 20
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'spreadsheet',
+  'application/vnd.ms-excel': 'spreadsheet',
+  'application/vnd.oasis.opendocument.spreadsheet': 'spreadsheet',
+  'text/csv': 'csv'
+}
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  xlsx: 'spreadsheet',
+  xls: 'spreadsheet',
+  ods: 'spreadsheet',
+  csv: 'csv',
+  txt: 'text',
+  md: 'text'
+}
+
+export function getDocumentKind(fileType: string, fileName: string): DocumentKind | null {
+  // Extension wins for CSV, which some clients send as application/vnd.ms-excel
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  if (EXTENSION_KINDS[extension] === 'spreadsheet' || EXTENSION_KINDS[extension] === 'csv') {
+    return EXTENSION_KINDS[extension]
+  }
+
+  if (fileType.startsWith('image/')) return 'image'
+  if (MIME_KINDS[fileType]) return MIME_KINDS[fileType]
+  if (EXTENSION_KINDS[extension]) return EXTENSION_KINDS[extension]
+  if (fileType.startsWith('text/')) return 'text'
+  return null
+}
+
+export async function parseDocument(
+  bytes: Uint8Array,
+  kind: Exclude<DocumentKind, 'image'>,
+  ocrImage?: ImageOcr,
+  onProgress?: (fraction: number) => void
+): Promise<ParsedDocument> {
+  switch (kind) {
+    case 'pdf':
+      return await parsePdf(bytes, ocrImage, onProgress)
+    case 'docx':
+      return parseDocx(bytes)
+    case 'spreadsheet':
+      return parseSpreadsheet(XLSX.read(bytes, { type: 'array', cellDates: true }))
+    case 'csv':
+      // Read as text like the web app does, so UTF-8 without a BOM survives
+      return parseSpreadsheet(XLSX.read(new TextDecoder().decode(bytes), { type: 'string', raw: false }))
+    case 'text':
+      return { text: new TextDecoder().decode(bytes), confidence: 0.99 }
+  }
+}
+
+/**
+ * Pages as the quota counts them, read without extracting anything: a PDF
+ * counts each page, a spreadsheet each sheet and anything else one page.
+ */
+export async function countDocumentPages(bytes: Uint8Array, kind: DocumentKind): Promise<number> {
+  switch (kind) {
+    case 'pdf':
+      return (await getDocumentProxy(bytes)).numPages
+    case 'spreadsheet':
+      return XLSX.read(bytes, { type: 'array', bookSheets: true }).SheetNames.length
+    case 'csv':
+      return XLSX.read(new TextDecoder().decode(bytes), { type: 'string', bookSheets: true }).SheetNames.length
+    default:
+      return 1
+  }
+}
+
+/**
+ * Read the text layer of every page. Pages without one are scans: there is no
+ * canvas to rasterize onto in the edge runtime, so the embedded page images
+ * (one per page for scanner output) are OCR'd instead.
+ */
+async function parsePdf(
+  bytes: Uint8Array,
+  ocrImage?: ImageOcr,
+  onProgress?: (fraction: number) => void
+): Promise<ParsedDocument> {
+  const pdf = await getDocumentProxy(bytes)
+  const { text: pageTexts } = await extractText(pdf, { mergePages: false })
+  const pages: ParsedPage[] = []
+
+  for (let i = 0; i < pageTexts.length; i++) {
+    onProgress?.(i / pageTexts.length)
+    const pageNumber = i + 1
+    const layerText = pageTexts[i].trim()
+
+    if (layerText.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+      pages.push({ page_number: pageNumber, text: layerText, confidence: 0.99, method: 'text-layer' })
+      continue
+    }
+
+    const images = await extractImages(pdf, pageNumber)
+    if (images.length === 0) {
+      if (layerText) {
+        pages.push({ page_number: pageNumber, text: layerText, confidence: 0.99, method: 'text-layer' })
+      }
+      continue
+    }
+
+    if (!ocrImage) {
+      throw new OcrUnavailableError(`Page ${pageNumber} is a scanned image and needs OCR`)
+    }
+
+    // Largest image first, that is the page scan rather than a logo
+    const ordered = [...images].sort((a, b) => b.width * b.height - a.width * a.height)
+    const results = []
+    for (const image of ordered) {
+      const png = encodePng({ width: image.width, height: image.height, data: image.data, channels: image.channels })
+      results.push(await ocrImage(encodeBase64(png), 'image/png'))
+    }
+
+    const text = results.map(result => result.text.trim()).filter(Boolean).join('\n\n')
+    const confidence = results.reduce((sum, result) => sum + result.confidence, 0) / results.length
+    pages.push({ page_number: pageNumber, text, confidence, method: 'ocr' })
+  }
+
+  const confidence = pages.length > 0
+    ? pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length
+    : 0
+
+  return {
+    text: pages.map(page => `--- Page ${page.page_number} ---\n${page.text}`).join('\n\n'),
+    confidence,
+    pages
+  }
+}
+
+/**
+ * Walk word/document.xml in order, keeping paragraphs, line breaks and tabs,
+ * and format headings, lists and tables as Markdown like the web app does
+ */
+function parseDocx(bytes: Uint8Array): ParsedDocument {
+  const parts = new Set(['word/document.xml', 'word/styles.xml', 'word/numbering.xml'])
+  const files = unzipSync(bytes, { filter: file => parts.has(file.name) })
+  const xml = files['word/document.xml']
+  if (!xml) {
+    throw new Error('Not a valid DOCX file: word/document.xml is missing')
+  }
+
+  const headingStyles = readHeadingStyles(files['word/styles.xml'])
+  const orderedLevels = readOrderedLevels(files['word/numbering.xml'])
+  const lists = new ListCounter()
+
+  const blocks: string[] = []
+  const tables: string[][][] = []
+  let paragraph = ''
+  let styleId = ''
+  let numId = ''
+  let level = 0
+  let inText = false
+  // Depth inside properties, deleted runs and field codes: no visible text, and <w:tab> there is a tab stop
+  let hidden = 0
+
+  const renderParagraph = (): string => {
+    if (!paragraph.trim()) return ''
+
+    const headingLevel = headingStyles.get(styleId) || Number(/^Heading(\d)$/.exec(styleId)?.[1] || 0)
+    if (headingLevel > 0) {
+      return `${'#'.repeat(headingLevel)} ${paragraph.trim()}`
+    }
+    // numId 0 explicitly removes numbering
+    if (numId && numId !== '0') {
+      const ordered = orderedLevels.get(numId)?.get(level) ?? false
+      return lists.next(numId, level, ordered) + paragraph.trim()
+    }
+    return paragraph
+  }
+
+  const token = /<(\/?)(w:p|w:pPr|w:rPr|w:del|w:instrText|w:pStyle|w:numId|w:ilvl|w:t|w:tab|w:br|w:cr|w:tc|w:tr|w:tbl)(?=[\s/>])([^>]*?)(\/?)>|<[^>]+>|([^<]+)/g
+  for (const match of strFromU8(xml).matchAll(token)) {
+    const [, closing, tag, attributes, selfClosing, content] = match
+
+    if (content !== undefined) {
+      if (inText && hidden === 0) paragraph += decodeEntities(content)
+      continue
+    }
+
+    if (tag === 'w:pPr' || tag === 'w:rPr' || tag === 'w:del' || tag === 'w:instrText') {
+      if (!selfClosing) hidden += closing ? -1 : 1
+      continue
+    }
+    if (tag === 'w:pStyle' || tag === 'w:numId' || tag === 'w:ilvl') {
+      // Only the paragraph's own properties count, not those of a tracked change inside them
+      if (hidden === 1 && !closing) {
+        const value = attributeValue(attributes, 'w:val') || ''
+        if (tag === 'w:pStyle') styleId = value
+        else if (tag === 'w:numId') numId = value
+        else level = Number(value) || 0
+      }
+      continue
+    }
+    if (hidden > 0) continue
+
+    const table = tables[tables.length - 1]
+    if (tag === 'w:t') {
+      inText = !closing && !selfClosing
+    } else if (tag === 'w:tab' && !closing) {
+      paragraph += '\t'
+    } else if ((tag === 'w:br' || tag === 'w:cr') && !closing) {
+      paragraph += '\n'
+    } else if (tag === 'w:p' && !closing && !selfClosing) {
+      paragraph = ''
+      styleId = ''
+      numId = ''
+      level = 0
+    } else if (tag === 'w:p') {
+      if (table) {
+        // Paragraphs inside a cell are joined into the cell text
+        const row = table[table.length - 1]
+        row[row.length - 1] = [row[row.length - 1], paragraph.trim()].filter(Boolean).join(' ')
+      } else {
+        blocks.push(renderParagraph())
+      }
+      paragraph = ''
+    } else if (tag === 'w:tbl') {
+      if (closing) {
+        const finished = tables.pop()!
+        const rendered = renderTable(finished)
+        if (tables.length > 0) {
+          // Nested tables are flattened into the enclosing cell
+          const row = tables[tables.length - 1].at(-1)!
+          row[row.length - 1] += ` ${rendered.replace(/\n/g, ' ')}`
+        } else {
+          blocks.push(rendered)
+        }
+      } else {
+        tables.push([])
+      }
+    } else if (tag === 'w:tr' && !closing && table) {
+      table.push([])
+    } else if (tag === 'w:tc' && !closing && table) {
+      table[table.length - 1].push('')
+    }
+  }
+
+  return {
+    text: blocks.filter(block => block.trim()).join('\n\n'),
+    confidence: 0.99
+  }
+}
+
+// styleId -> heading level, from the style names ("heading 1", "Title")
+function readHeadingStyles(xml: Uint8Array | undefined): Map<string, number> {
+  const headingStyles = new Map<string, number>()
+  if (!xml) return headingStyles
+
+  for (const [, attributes, body] of strFromU8(xml).matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const styleId = attributeValue(attributes, 'w:styleId') || ''
+    const name = attributeValue(/<w:name\b([^>]*)/.exec(body)?.[1] || '', 'w:val') || ''
+    const match = /^heading\s*(\d)$/i.exec(name)
+    if (match) headingStyles.set(styleId, Number(match[1]))
+    else if (/^title$/i.test(name)) headingStyles.set(styleId, 1)
+  }
+  return headingStyles
+}
+
+// numId -> level -> whether that level is numbered rather than bulleted
+function readOrderedLevels(xml: Uint8Array | undefined): Map<string, Map<number, boolean>> {
+  const orderedLevels = new Map<string, Map<number, boolean>>()
+  if (!xml) return orderedLevels
+  const numbering = strFromU8(xml)
+
+  const abstractLevels = new Map<string, Map<number, boolean>>()
+  for (const [, attributes, body] of numbering.matchAll(/<w:abstractNum\b([^>]*)>([\s\S]*?)<\/w:abstractNum>/g)) {
+    const levels = new Map<number, boolean>()
+    for (const [, levelAttributes, levelBody] of body.matchAll(/<w:lvl\b([^>]*)>([\s\S]*?)<\/w:lvl>/g)) {
+      const format = attributeValue(/<w:numFmt\b([^>]*)/.exec(levelBody)?.[1] || '', 'w:val')
+      levels.set(Number(attributeValue(levelAttributes, 'w:ilvl') || 0), !!format && format !== 'bullet' && format !== 'none')
+    }
+    abstractLevels.set(attributeValue(attributes, 'w:abstractNumId') || '', levels)
+  }
+  for (const [, attributes, body] of numbering.matchAll(/<w:num\b([^>]*)>([\s\S]*?)<\/w:num>/g)) {
+    const abstractId = attributeValue(/<w:abstractNumId\b([^>]*)/.exec(body)?.[1] || '', 'w:val') || ''
+    orderedLevels.set(attributeValue(attributes, 'w:numId') || '', abstractLevels.get(abstractId) || new Map())
+  }
+  return orderedLevels
+}
+
+const attributeValue = (attributes: string, name: string): string | null => {
+  const match = new RegExp(`(?:^|\\s)${name}=(?:"([^"]*)"|'([^']*)')`).exec(attributes)
+  return match ? decodeEntities(match[1] ?? match[2]) : null
+}
+
+// Kept in sync with ListCounter in src/lib/documents.ts
+class ListCounter {
+  private counters = new Map<string, number[]>()
+
+  next(listId: string, level: number, ordered: boolean): string {
+    const levels = this.counters.get(listId) || []
+    levels[level] = (levels[level] || 0) + 1
+    // Starting an item resets the numbering of anything nested below it
+    levels.length = level + 1
+    this.counters.set(listId, levels)
+
+    return `${'  '.repeat(level)}${ordered ? `${levels[level]}.` : '-'} `
+  }
+}
+
+// Kept in sync with parseSpreadsheet in src/lib/spreadsheets.ts
+function parseSpreadsheet(workbook: XLSX.WorkBook): ParsedDocument {
+  const sheets: ParsedSheet[] = workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name]
+
+    // Only the cells the file holds are visited: its declared range can run to billions of cells
+    const cells: ParsedSheetCell[] = []
+    for (const address of Object.keys(sheet)) {
+      if (address.startsWith('!')) continue
+      const cell = sheet[address] as XLSX.CellObject
+      if (cell.v === undefined || cell.v === null || cell.v === '') continue
+
+      const { r, c } = XLSX.utils.decode_cell(address)
+      const value = cell.v instanceof Date ? cell.v.toISOString() : cell.v
+      cells.push({ address, row: r, column: c, value, text: cell.w ?? String(value) })
+    }
+    if (cells.length === 0) return { name, range: '', rows: [] }
+
+    cells.sort((a, b) => a.row - b.row || a.column - b.column)
+    const rows: ParsedSheetCell[][] = []
+    cells.forEach((cell, index) => {
+      if (index === 0 || cell.row !== cells[index - 1].row) rows.push([])
+      rows[rows.length - 1].push(cell)
+    })
+
+    const range = XLSX.utils.encode_range({
+      s: { r: cells[0].row, c: cells.reduce((min, cell) => Math.min(min, cell.column), Infinity) },
+      e: { r: cells[cells.length - 1].row, c: cells.reduce((max, cell) => Math.max(max, cell.column), 0) }
+    })
+    return { name, range, rows }
+  })
+
+  const text = sheets
+    .filter(sheet => sheet.rows.length > 0)
+    .map(sheet => {
+      const range = XLSX.utils.decode_range(sheet.range)
+      const grid = sheet.rows.map(row => {
+        const cells = new Array<string>(range.e.c - range.s.c + 1).fill('')
+        row.forEach(cell => {
+          cells[cell.column - range.s.c] = cell.text
+        })
+        return cells
+      })
+      return `## ${sheet.name}\n\n${renderTable(grid)}`
+    })
+    .join('\n\n')
+
+  return { text, confidence: 0.99, sheets }
+}
+
+// Kept in sync with renderTable in src/lib/documents.ts so both paths produce the same text
+function renderTable(rows: string[][]): string {
+  if (rows.length === 0) return ''
+  const width = Math.max(...rows.map(row => row.length))
+  const lines = rows.map(row => {
+    const cells = Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' '))
+    return `| ${cells.join(' | ')} |`
+  })
+  lines.splice(1, 0, `| ${Array.from({ length: width }, () => '---').join(' | ')} |`)
+  return lines.join('\n')
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,155 @@
+import { createOCREngine } from 'npm:tesseract-wasm@0.11.0'
+import type { OCREngine } from 'npm:tesseract-wasm@0.11.0'
+import { decode as decodeImage, Image } from 'npm:imagescript@1.3.1'
+import { decodeBase64 } from 'jsr:@std/encoding@1/base64'
+import { OpenAIService } from './openai.ts'
+
+export type OcrProviderName = 'openai' | 'tesseract' | 'openai-compatible'
+
+export const OCR_PROVIDERS: OcrProviderName[] = ['openai', 'tesseract', 'openai-compatible']
+
+export interface OcrProvider {
+  name: OcrProviderName
+  recognize(imageBase64: string, mimeType: string): Promise<{ text: string; confidence: number }>
+}
+
+export interface OcrProviderOptions {
+  provider?: string
+  openai_api_key?: string
+  // Tesseract language code for the local engine, e.g. "eng" or "spa"
+  ocr_language?: string
+  // Model name for the OpenAI-compatible provider, overrides OCR_COMPATIBLE_MODEL
+  ocr_model?: string
+}
+
+// Raised for requests that pick a provider which is unknown or not configured
+export class OcrProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OcrProviderConfigError'
+  }
+}
+
+const TESSERACT_WASM_URL = 'https://cdn.jsdelivr.net/npm/tesseract-wasm@0.11.0/dist/tesseract-core.wasm'
+const TESSDATA_URL = 'https://cdn.jsdelivr.net/gh/tesseract-ocr/tessdata_fast@main'
+
+/**
+ * Name of the provider a request will use. Precedence: the request's
+ * `provider`, then the OCR_DEFAULT_PROVIDER environment variable, then OpenAI
+ * when a key was sent (the behaviour before providers existed) and the local
+ * engine otherwise.
+ */
+export function resolveOcrProviderName(options: OcrProviderOptions): string {
+  return options.provider
+    || Deno.env.get('OCR_DEFAULT_PROVIDER')
+    || (options.openai_api_key ? 'openai' : 'tesseract')
+}
+
+export function createOcrProvider(options: OcrProviderOptions): OcrProvider {
+  const name = resolveOcrProviderName(options)
+
+  switch (name) {
+    case 'openai': {
+      if (!options.openai_api_key) {
+        throw new OcrProviderConfigError('OpenAI API key required for the openai OCR provider')
+      }
+      return visionProvider('openai', new OpenAIService(options.openai_api_key))
+    }
+    case 'openai-compatible': {
+      // The base URL only comes from the environment so callers cannot point the function at arbitrary hosts
+      const baseUrl = Deno.env.get('OCR_COMPATIBLE_BASE_URL')
+      const model = options.ocr_model || Deno.env.get('OCR_COMPATIBLE_MODEL')
+      if (!baseUrl || !model) {
+        throw new OcrProviderConfigError('The openai-compatible OCR provider is not configured on this server')
+      }
+      return visionProvider(
+        'openai-compatible',
+        new OpenAIService(Deno.env.get('OCR_COMPATIBLE_API_KEY') || '', { baseUrl, apiVersion: '', visionModel: model })
+      )
+    }
+    case 'tesseract':
+      return tesseractProvider(options.ocr_language || Deno.env.get('OCR_DEFAULT_LANGUAGE') || 'eng')
+    default:
+      throw new OcrProviderConfigError(`Unknown OCR provider: ${name}. Use one of: ${OCR_PROVIDERS.join(', ')}`)
+  }
+}
+
+function visionProvider(name: OcrProviderName, service: OpenAIService): OcrProvider {
+  return {
+    name,
+    recognize: (imageBase64, mimeType) => service.extractTextFromImage(imageBase64, mimeType)
+  }
+}
+
+// The engine and models are cached across requests served by the same isolate
+let enginePromise: Promise<OCREngine> | null = null
+const models = new Map<string, Promise<Uint8Array>>()
+let loadedLanguage: string | null = null
+
+async function getEngine(): Promise<OCREngine> {
+  if (!enginePromise) {
+    enginePromise = fetchBytes(Deno.env.get('TESSERACT_WASM_URL') || TESSERACT_WASM_URL)
+      .then(wasmBinary => createOCREngine({ wasmBinary }))
+      .catch(error => {
+        enginePromise = null
+        throw error
+      })
+  }
+  return enginePromise
+}
+
+function getModel(language: string): Promise<Uint8Array> {
+  if (!/^[a-z_]+$/i.test(language)) {
+    throw new OcrProviderConfigError(`Invalid OCR language: ${language}`)
+  }
+
+  let model = models.get(language)
+  if (!model) {
+    model = fetchBytes(`${Deno.env.get('TESSDATA_URL') || TESSDATA_URL}/${language}.traineddata`)
+    model.catch(() => models.delete(language))
+    models.set(language, model)
+  }
+  return model
+}
+
+/**
+ * Offline OCR with Tesseract compiled to WebAssembly. Nothing leaves the
+ * function once the engine and language model are downloaded.
+ */
+function tesseractProvider(language: string): OcrProvider {
+  return {
+    name: 'tesseract',
+    recognize: async (imageBase64) => {
+      const [engine, model] = await Promise.all([getEngine(), getModel(language)])
+      const image = await decodeImage(decodeBase64(imageBase64))
+      if (!(image instanceof Image)) {
+        throw new Error('Animated images are not supported by the tesseract OCR provider')
+      }
+
+      // The engine is shared by the isolate; everything below is synchronous,
+      // so concurrent requests cannot swap the model or image mid-recognition
+      if (loadedLanguage !== language) {
+        engine.loadModel(model)
+        loadedLanguage = language
+      }
+      engine.loadImage({ data: image.bitmap, width: image.width, height: image.height } as ImageData)
+
+      const text = engine.getText()
+      const words = engine.getTextBoxes('word')
+      engine.clearImage()
+
+      const confidence = words.length > 0
+        ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+        : 0
+      return { text, confidence }
+    }
+  }
+}
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.statusText}`)
+  }
+  return new Uint8Array(await response.arrayBuffer())
+}
@@ -0,0 +1,132 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { countDocumentPages, getDocumentKind } from './parsers.ts'
+
+export interface QuotaStatus {
+  allowed: boolean
+  reason: 'rate_limit' | 'file_size' | 'daily_quota' | null
+  plan: string
+  requests_per_minute: number
+  requests_used: number
+  minute_reset: string
+  daily_pages: number
+  pages_used: number
+  daily_bytes: number
+  bytes_used: number
+  max_file_bytes: number
+  day_reset: string
+}
+
+// Carries the HTTP status (429, or 413 for an oversized file) and the headers to answer with
+export class QuotaExceededError extends Error {
+  status: number
+  headers: Record<string, string>
+
+  constructor(message: string, status: number, headers: Record<string, string>) {
+    super(message)
+    this.name = 'QuotaExceededError'
+    this.status = status
+    this.headers = headers
+  }
+}
+
+// Lets browsers read the quota headers on cross-origin responses
+export const RATE_LIMIT_EXPOSE_HEADERS = [
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+  'X-RateLimit-Pages-Remaining',
+  'X-RateLimit-Bytes-Remaining',
+  'Retry-After'
+].join(', ')
+
+const toEpochSeconds = (timestamp: string) => Math.ceil(new Date(timestamp).getTime() / 1000)
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`
+
+export function rateLimitHeaders(status: QuotaStatus): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(status.requests_per_minute),
+    'X-RateLimit-Remaining': String(Math.max(0, status.requests_per_minute - status.requests_used)),
+    'X-RateLimit-Reset': String(toEpochSeconds(status.minute_reset)),
+    'X-RateLimit-Pages-Remaining': String(Math.max(0, status.daily_pages - status.pages_used)),
+    'X-RateLimit-Bytes-Remaining': String(Math.max(0, status.daily_bytes - status.bytes_used))
+  }
+}
+
+// 413 for a file over the plan's limit; also thrown for a file refused before it is decoded
+export function fileSizeError(status: QuotaStatus): QuotaExceededError {
+  return new QuotaExceededError(
+    `File too large: the ${status.plan} plan accepts files up to ${formatMegabytes(status.max_file_bytes)}`,
+    413,
+    rateLimitHeaders(status)
+  )
+}
+
+/**
+ * Count one extraction request of `bytes` and `pages` against the user's
+ * plan. Throws QuotaExceededError when the request must be refused; the
+ * returned status feeds the X-RateLimit-* headers of the successful response.
+ *
+ * When the size isn't known before the file is read, call it with 0 bytes
+ * first, then with the size, the pages and `countRequest` false to reserve
+ * them without counting the request twice.
+ */
+export async function consumeQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  bytes: number,
+  countRequest = true,
+  pages = 0
+): Promise<QuotaStatus> {
+  const { data, error } = await supabase.rpc('consume_quota', {
+    p_user_id: userId,
+    p_bytes: bytes,
+    p_count_request: countRequest,
+    p_pages: pages
+  })
+  if (error || !data) {
+    console.error('Quota check error:', error)
+    throw new Error('Failed to check usage quota')
+  }
+
+  const status = data as QuotaStatus
+  if (status.allowed) return status
+
+  const headers = rateLimitHeaders(status)
+  const now = Date.now() / 1000
+
+  switch (status.reason) {
+    case 'rate_limit':
+      headers['Retry-After'] = String(Math.max(1, toEpochSeconds(status.minute_reset) - Math.floor(now)))
+      throw new QuotaExceededError(
+        `Rate limit exceeded: ${status.requests_per_minute} requests per minute on the ${status.plan} plan`,
+        429,
+        headers
+      )
+    case 'file_size':
+      throw fileSizeError(status)
+    default:
+      headers['Retry-After'] = String(Math.max(1, toEpochSeconds(status.day_reset) - Math.floor(now)))
+      throw new QuotaExceededError(
+        `Daily quota exceeded: ${status.daily_pages} pages or ${formatMegabytes(status.daily_bytes)} per day on the ${status.plan} plan`,
+        429,
+        headers
+      )
+  }
+}
+
+/**
+ * Pages a file will be charged for, counted before extracting so a large
+ * PDF is refused up front. A file that can't be counted is charged one page;
+ * the extraction then fails with its own error.
+ */
+export async function countPages(bytes: Uint8Array, fileType: string, fileName: string): Promise<number> {
+  const kind = getDocumentKind(fileType, fileName)
+  if (!kind) return 1
+  try {
+    return Math.max(1, await countDocumentPages(bytes, kind))
+  } catch (error) {
+    console.error('Page count error:', error)
+    return 1
+  }
+}
@@ -0,0 +1,324 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { decodeBase64 } from 'jsr:@std/encoding@1/base64'
+import { encodeHex } from 'jsr:@std/encoding@1/hex'
+import { assertPublicUrl, PublicUrlError } from './network.ts'
+
+export const DOCUMENTS_BUCKET = 'documents'
+
+// Hard cap on anything read into memory, whatever the plan allows; plans are checked afterwards
+const MAX_UPLOAD_BYTES = Number(Deno.env.get('MAX_UPLOAD_BYTES')) || 50 * 1024 * 1024
+// Room for the text fields sent next to the file in a multipart body
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+const FETCH_TIMEOUT_MS = 15_000
+const MAX_REDIRECTS = 3
+
+// Multipart fields arrive as strings; these are turned back into booleans
+const BOOLEAN_FIELDS = new Set(['enhance_text', 'force'])
+
+export interface ReceivedUpload {
+  bytes: Uint8Array
+  file_name: string
+  file_type: string
+  // Set when the file already lives in the documents bucket, so it isn't stored twice
+  storage_path?: string
+  // Every other request field (options, user_id), as sent
+  fields: Record<string, unknown>
+}
+
+// Carries the HTTP status to answer with: 400 for a bad source, 403 for someone else's object,
+// 404 for a missing one, 413 when too large
+export class UploadError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'UploadError'
+    this.status = status
+  }
+}
+
+/**
+ * Read the file of an extraction request, sent in one of four ways:
+ * base64 `file_data` in JSON, a `file` part of a multipart/form-data body,
+ * a public `source_url` to download, or a `storage_path` to an object the
+ * caller owns in the documents bucket.
+ */
+export async function receiveUpload(
+  req: Request,
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ReceivedUpload> {
+  const contentType = req.headers.get('Content-Type') || ''
+
+  if (contentType.startsWith('multipart/form-data')) {
+    return await receiveMultipart(req, contentType)
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await req.json()
+  } catch {
+    throw new UploadError('Request body must be JSON or multipart/form-data')
+  }
+
+  const { file_data, source_url, storage_path, ...fields } = body
+  const sources = [file_data, source_url, storage_path].filter(Boolean)
+  if (sources.length === 0) {
+    throw new UploadError('Missing file: send file_data, a multipart file, source_url or storage_path')
+  }
+  if (sources.length > 1) {
+    throw new UploadError('Send only one of file_data, source_url and storage_path')
+  }
+
+  const fileName = typeof fields.file_name === 'string' ? fields.file_name : undefined
+  const fileType = typeof fields.file_type === 'string' ? fields.file_type : undefined
+
+  if (typeof file_data === 'string') {
+    if (!fileName || !fileType) {
+      throw new UploadError('Missing required fields: file_data, file_name, file_type')
+    }
+    return {
+      bytes: decodeFileData(file_data),
+      file_name: fileName,
+      file_type: fileType,
+      fields
+    }
+  }
+
+  if (typeof source_url === 'string') {
+    const downloaded = await downloadSource(source_url)
+    return {
+      ...downloaded,
+      file_name: fileName || downloaded.file_name,
+      file_type: fileType || downloaded.file_type,
+      fields
+    }
+  }
+
+  if (typeof storage_path === 'string') {
+    const stored = await readStoredObject(supabase, userId, storage_path)
+    return {
+      ...stored,
+      file_name: fileName || stored.file_name,
+      file_type: fileType || stored.file_type,
+      fields
+    }
+  }
+
+  throw new UploadError('file_data, source_url and storage_path must be strings')
+}
+
+/**
+ * Decode base64 `file_data`, refusing it before decoding when it would be
+ * over the upload cap.
+ */
+export function decodeFileData(fileData: string): Uint8Array {
+  // Base64 is a third larger than the bytes it encodes
+  if (fileData.length * 0.75 > MAX_UPLOAD_BYTES) {
+    throw new UploadError(tooLargeMessage(), 413)
+  }
+  try {
+    return decodeBase64(fileData)
+  } catch {
+    throw new UploadError('file_data must be base64 encoded')
+  }
+}
+
+async function receiveMultipart(req: Request, contentType: string): Promise<ReceivedUpload> {
+  if (Number(req.headers.get('Content-Length')) > MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD_BYTES) {
+    throw new UploadError(tooLargeMessage(), 413)
+  }
+  if (!req.body) {
+    throw new UploadError('Missing file: send the file in a "file" field')
+  }
+
+  // Chunked uploads have no Content-Length, so the body is also counted as it streams in
+  const limited = limitStream(req.body, MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD_BYTES)
+  let form: FormData
+  try {
+    form = await new Response(limited.stream, { headers: { 'Content-Type': contentType } }).formData()
+  } catch (error) {
+    if (limited.exceeded()) throw new UploadError(tooLargeMessage(), 413)
+    console.error('Multipart parse error:', error)
+    throw new UploadError('Malformed multipart/form-data body')
+  }
+
+  const file = form.get('file')
+  if (!(file instanceof File)) {
+    throw new UploadError('Missing file: send the file in a "file" field')
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(tooLargeMessage(), 413)
+  }
+
+  const fields: Record<string, unknown> = {}
+  form.forEach((value, key) => {
+    if (key === 'file' || typeof value !== 'string') return
+    fields[key] = BOOLEAN_FIELDS.has(key) ? value === 'true' || value === '1' : value
+  })
+
+  return {
+    bytes: new Uint8Array(await file.arrayBuffer()),
+    file_name: typeof fields.file_name === 'string' ? fields.file_name : file.name,
+    file_type: (typeof fields.file_type === 'string' ? fields.file_type : file.type) || 'application/octet-stream',
+    fields
+  }
+}
+
+/**
+ * Download a file from a public http(s) URL. Every hop of a redirect chain is
+ * checked against private, loopback and link-local addresses so the function
+ * can't be pointed at internal services.
+ */
+async function downloadSource(sourceUrl: string): Promise<{ bytes: Uint8Array; file_name: string; file_type: string }> {
+  let url: URL
+  try {
+    url = new URL(sourceUrl)
+  } catch {
+    throw new UploadError('source_url is not a valid URL')
+  }
+
+  let response: Response | null = null
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    try {
+      await assertPublicUrl(url, 'source_url')
+    } catch (error) {
+      throw error instanceof PublicUrlError ? new UploadError(error.message) : error
+    }
+
+    try {
+      response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+    } catch (error) {
+      console.error('Source download error:', error)
+      throw new UploadError(`Failed to download source_url from ${url.hostname}`)
+    }
+
+    const location = response.headers.get('Location')
+    if (response.status < 300 || response.status >= 400 || !location) break
+
+    await response.body?.cancel()
+    url = new URL(location, url)
+    response = null
+  }
+
+  if (!response) {
+    throw new UploadError(`source_url redirected more than ${MAX_REDIRECTS} times`)
+  }
+  if (!response.ok || !response.body) {
+    throw new UploadError(`Failed to download source_url: HTTP ${response.status}`)
+  }
+  if (Number(response.headers.get('Content-Length')) > MAX_UPLOAD_BYTES) {
+    await response.body.cancel()
+    throw new UploadError(tooLargeMessage(), 413)
+  }
+
+  const limited = limitStream(response.body, MAX_UPLOAD_BYTES)
+  let bytes: Uint8Array
+  try {
+    bytes = new Uint8Array(await new Response(limited.stream).arrayBuffer())
+  } catch (error) {
+    if (limited.exceeded()) throw new UploadError(tooLargeMessage(), 413)
+    console.error('Source download error:', error)
+    throw new UploadError(`Failed to download source_url from ${url.hostname}`)
+  }
+
+  const disposition = response.headers.get('Content-Disposition')?.match(/filename="?([^";]+)"?/i)?.[1]
+  const lastSegment = decodePathSegment(url.pathname.split('/').pop() || '')
+
+  return {
+    bytes,
+    file_name: disposition || lastSegment || 'download',
+    file_type: response.headers.get('Content-Type')?.split(';')[0].trim() || 'application/octet-stream'
+  }
+}
+
+// Objects are stored under the owner's id, the same layout the bucket's RLS policies expect
+async function readStoredObject(
+  supabase: SupabaseClient,
+  userId: string,
+  storagePath: string
+): Promise<{ bytes: Uint8Array; file_name: string; file_type: string; storage_path: string }> {
+  const path = storagePath.replace(/^\/+/, '')
+  const segments = path.split('/')
+
+  if (segments[0] !== userId || segments.length < 2 || segments.some(segment => !segment || segment === '..')) {
+    throw new UploadError(`storage_path must point to an object under "${userId}/" in the ${DOCUMENTS_BUCKET} bucket`, 403)
+  }
+
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(path)
+  if (error || !data) {
+    throw new UploadError(`Object not found in the ${DOCUMENTS_BUCKET} bucket: ${path}`, 404)
+  }
+  if (data.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(tooLargeMessage(), 413)
+  }
+
+  return {
+    bytes: new Uint8Array(await data.arrayBuffer()),
+    file_name: segments[segments.length - 1],
+    file_type: data.type || 'application/octet-stream',
+    storage_path: path
+  }
+}
+
+/**
+ * Keep the original of an API upload in the documents bucket, laid out like
+ * uploads from the web app (`<user_id>/<timestamp>.<ext>`), so it can be
+ * viewed from the history and passed back as `storage_path` to re-run.
+ * Returns the object path and its public URL.
+ */
+export async function storeOriginal(
+  supabase: SupabaseClient,
+  userId: string,
+  upload: Pick<ReceivedUpload, 'bytes' | 'file_name' | 'file_type' | 'storage_path'>
+): Promise<{ storage_path: string; file_url: string }> {
+  let path = upload.storage_path
+
+  if (!path) {
+    const extension = upload.file_name.includes('.') ? upload.file_name.split('.').pop()!.toLowerCase() : 'bin'
+    // The random part keeps two uploads in the same millisecond from colliding
+    path = `${userId}/${Date.now()}-${crypto.randomUUID()}.${extension.replace(/[^a-z0-9]/g, '') || 'bin'}`
+
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(path, upload.bytes, { contentType: upload.file_type })
+
+    if (error) {
+      console.error('Upload error:', error)
+      throw new Error('Failed to store the original file')
+    }
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from(DOCUMENTS_BUCKET).getPublicUrl(path)
+  return { storage_path: path, file_url: publicUrl }
+}
+
+export async function hashContent(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return encodeHex(new Uint8Array(digest))
+}
+
+function limitStream(body: ReadableStream<Uint8Array>, maxBytes: number) {
+  let received = 0
+  const stream = body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength
+      if (received > maxBytes) {
+        controller.error(new UploadError(tooLargeMessage(), 413))
+        return
+      }
+      controller.enqueue(chunk)
+    }
+  }))
+  return { stream, exceeded: () => received > maxBytes }
+}
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+const tooLargeMessage = () => `File too large: uploads are limited to ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))} MB`
@@ -0,0 +1,187 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { encodeHex } from 'jsr:@std/encoding@1/hex'
+import { assertPublicUrl, PublicUrlError } from './network.ts'
+
+export const WEBHOOK_EVENTS = ['extraction.succeeded', 'extraction.failed'] as const
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+interface Delivery {
+  id: string
+  event: string
+  payload: unknown
+  attempts: number
+  webhook_endpoints: { url: string; secret: string; active: boolean }
+}
+
+// Attempt n+1 is scheduled this long after attempt n fails; the last entry is the final attempt
+const RETRY_DELAYS_SECONDS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60]
+const MAX_ATTEMPTS = RETRY_DELAYS_SECONDS.length + 1
+const DELIVERY_TIMEOUT_MS = 10_000
+// How long a claimed delivery is left alone before another run may take it over
+const DELIVERY_LEASE_SECONDS = 120
+
+export const generateSecret = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `whsec_${encodeHex(bytes)}`
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded. Receivers recompute
+ * it with their endpoint secret and reject stale timestamps to stop replays.
+ */
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return encodeHex(new Uint8Array(signature))
+}
+
+/**
+ * Queue `event` for every active endpoint of the user subscribed to it and
+ * make the first delivery attempt. Never throws: webhooks must not fail the
+ * extraction that triggered them.
+ */
+export async function dispatchWebhooks(
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .contains('events', [event])
+
+    if (error) throw error
+    if (!endpoints || endpoints.length === 0) return
+
+    const createdAt = new Date().toISOString()
+    // Inserted already claimed, so the retry sweep leaves them alone during the first attempt
+    const { data: deliveries, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(endpoints.map(endpoint => ({
+        endpoint_id: endpoint.id,
+        user_id: userId,
+        event,
+        payload: { event, created_at: createdAt, data },
+        status: 'delivering',
+        next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_SECONDS * 1000).toISOString()
+      })))
+      .select('id, event, payload, attempts, webhook_endpoints(url, secret, active)')
+
+    if (insertError) throw insertError
+
+    await Promise.all((deliveries as unknown as Delivery[]).map(delivery => attemptDelivery(supabase, delivery)))
+  } catch (error) {
+    console.error(`Webhook dispatch error (${event}):`, error)
+  }
+}
+
+/**
+ * Retry every pending delivery whose backoff has elapsed, and any claimed
+ * one whose worker gave up mid-attempt. Deliveries are claimed atomically
+ * first, so overlapping runs never send the same one twice. Returns how many
+ * were attempted.
+ */
+export async function retryDueDeliveries(supabase: SupabaseClient, limit = 50): Promise<number> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_webhook_deliveries', {
+    p_limit: limit,
+    p_lease_seconds: DELIVERY_LEASE_SECONDS
+  })
+
+  if (claimError) throw claimError
+  if (!claimed || claimed.length === 0) return 0
+
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, event, payload, attempts, webhook_endpoints(url, secret, active)')
+    .in('id', (claimed as { id: string }[]).map(delivery => delivery.id))
+
+  if (error) throw error
+
+  await Promise.all((deliveries as unknown as Delivery[]).map(delivery => attemptDelivery(supabase, delivery)))
+  return deliveries.length
+}
+
+async function attemptDelivery(supabase: SupabaseClient, delivery: Delivery): Promise<void> {
+  const endpoint = delivery.webhook_endpoints
+  const attempts = delivery.attempts + 1
+
+  if (!endpoint.active) {
+    await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', last_error: 'Endpoint disabled', next_attempt_at: null })
+      .eq('id', delivery.id)
+    return
+  }
+
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) })
+  const timestamp = Math.floor(Date.now() / 1000)
+  let responseStatus: number | null = null
+  let lastError: string | null = null
+  let blocked = false
+
+  try {
+    // Checked on every attempt too: the host may resolve somewhere else than when it was saved
+    await assertPublicUrl(new URL(endpoint.url), 'Webhook URL', ['https:'])
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TextExtract-Webhooks/1.0',
+        'X-TextExtract-Event': delivery.event,
+        'X-TextExtract-Delivery': delivery.id,
+        'X-TextExtract-Timestamp': String(timestamp),
+        'X-TextExtract-Signature': `v1=${await signPayload(endpoint.secret, timestamp, body)}`
+      },
+      body,
+      // A redirect could lead to an internal host; it counts as a failed attempt
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+    responseStatus = response.status
+    // The body is never read or stored, so a delivery can't be used to read other services
+    await response.body?.cancel()
+    if (!response.ok) {
+      lastError = response.status >= 300 && response.status < 400
+        ? `Endpoint redirected (HTTP ${response.status}); redirects are not followed`
+        : `Endpoint responded with HTTP ${response.status}`
+    }
+  } catch (error) {
+    blocked = error instanceof PublicUrlError
+    lastError = error instanceof Error ? error.message : 'Delivery failed'
+  }
+
+  const delivered = lastError === null
+  const exhausted = blocked || attempts >= MAX_ATTEMPTS
+  const nextAttemptAt = delivered || exhausted
+    ? null
+    : new Date(Date.now() + RETRY_DELAYS_SECONDS[attempts - 1] * 1000).toISOString()
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: delivered ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      attempts,
+      response_status: responseStatus,
+      last_error: lastError,
+      next_attempt_at: nextAttemptAt,
+      delivered_at: delivered ? new Date().toISOString() : null
+    })
+    .eq('id', delivery.id)
+
+  if (error) {
+    console.error('Webhook delivery update error:', error)
+  }
+}
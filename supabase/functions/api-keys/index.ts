@@ -0,0 +1,123 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { encodeHex } from 'jsr:@std/encoding@1/hex'
+import { ApiKeyScope, AuthError, authenticate, hashApiKey } from '../_shared/auth.ts'
+
+interface CreateKeyRequest {
+  name?: unknown
+  scopes?: unknown
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key",
+}
+
+const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'extract']
+
+// Shown in the UI so keys can be told apart; long enough to be unambiguous, too short to be useful
+const PREFIX_LENGTH = 12
+
+const KEY_COLUMNS = 'id, name, prefix, scopes, last_used_at, revoked_at, created_at'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+const generateKey = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `tep_${encodeHex(bytes)}`
+}
+
+// Keys are only created and rotated here, so the hash, prefix and scopes stored always belong to a generated key
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const auth = await authenticate(req, supabase, 'extract')
+    // A leaked key must not be able to mint or rotate keys
+    if (auth.method !== 'jwt') {
+      return jsonResponse({ success: false, error: 'API keys are managed with a session token' }, 403)
+    }
+
+    // Routes: POST /api-keys and POST /api-keys/:id/rotate
+    const [, keyId, action] = new URL(req.url).pathname.split('/').filter(Boolean)
+    const key = generateKey()
+
+    if (keyId && action === 'rotate') {
+      // Same name and scopes, new secret: the old value stops working immediately. Revoked keys stay revoked.
+      const { data, error } = await supabase
+        .from('api_keys')
+        .update({ prefix: key.slice(0, PREFIX_LENGTH), key_hash: await hashApiKey(key), last_used_at: null })
+        .eq('id', keyId)
+        .eq('user_id', auth.userId)
+        .is('revoked_at', null)
+        .select(KEY_COLUMNS)
+        .maybeSingle()
+
+      if (error) throw error
+      if (!data) {
+        return jsonResponse({ success: false, error: 'API key not found or revoked' }, 404)
+      }
+      return jsonResponse({ success: true, data: { ...data, key } }, 200)
+    }
+    if (keyId) {
+      return jsonResponse({ success: false, error: 'Not found' }, 404)
+    }
+
+    let body: CreateKeyRequest
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Request body must be valid JSON' }, 400)
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 100) : ''
+    if (!name) {
+      return jsonResponse({ success: false, error: 'name is required' }, 400)
+    }
+    const scopes = Array.isArray(body.scopes) ? body.scopes : API_KEY_SCOPES
+    if (scopes.length === 0 || scopes.some(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope))) {
+      return jsonResponse({ success: false, error: `scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}` }, 400)
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: auth.userId,
+        name,
+        prefix: key.slice(0, PREFIX_LENGTH),
+        key_hash: await hashApiKey(key),
+        scopes: [...new Set(scopes)]
+      })
+      .select(KEY_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    return jsonResponse({ success: true, data: { ...data, key } }, 201)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ success: false, error: error.message }, error.status)
+    }
+
+    console.error('Function error:', error)
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500)
+  }
+})
@@ -1,22 +1,38 @@
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { AuthContext, AuthError, authenticate } from '../_shared/auth.ts'
+import { enhanceOutcome, ExtractionOptions, ExtractionOutcome, ExtractionRequestError, findCachedExtraction, resolveSchema, runExtraction, saveExtraction, settingsKey, StructuredRequest } from '../_shared/extraction.ts'
+import { OpenAIService } from '../_shared/openai.ts'
+import { LLMAuthError, LLMError } from '../_shared/llm.ts'
+import { JsonSchema, StructuredData, StructuredIssue } from '../_shared/structured.ts'
+import { dispatchWebhooks } from '../_shared/webhooks.ts'
+import { hashContent, ReceivedUpload, receiveUpload, storeOriginal, UploadError } from '../_shared/uploads.ts'
+import { consumeQuota, countPages, QuotaExceededError, QuotaStatus, RATE_LIMIT_EXPOSE_HEADERS, rateLimitHeaders } from '../_shared/quotas.ts'
 
-interface ExtractTextRequest {
-  file_data: string // base64 encoded file
-  file_name: string
-  file_type: string
-  openai_api_key?: string
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+// The file itself arrives as base64 file_data, a multipart "file" field,
+// a source_url or a storage_path; see receiveUpload
+interface ExtractTextRequest extends ExtractionOptions, StructuredRequest {
+  // Run the extraction even when the same file was already extracted with the same settings
+  force?: boolean
+  // Deprecated: the caller comes from the credentials; if sent it must match them
   user_id?: string
-  enhance_text?: boolean
 }
 
 interface ExtractTextResponse {
   success: boolean
-  data?: {
-    extracted_text: string
-    confidence_score: number
+  data?: ExtractionOutcome & {
     processing_time: number
     file_name: string
     extraction_id?: string
+    // Pass back as storage_path to re-run the extraction on the same file
+    storage_path: string
+    // Set when an earlier result for the same file and settings was reused
+    duplicate_of?: string
+    // Only with schema or schema_id
+    structured_data?: Record<string, unknown>
+    structured_issues?: StructuredIssue[]
+    structured_error?: string
   }
   error?: string
 }
@@ -25,113 +41,7 @@ const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key",
-}
-
-class OpenAIService {
-  private apiKey: string
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey
-  }
-
-  async extractTextFromImage(imageBase64: string): Promise<{ text: string; confidence: number }> {
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-4-vision-preview',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: 'Extract all text from this image. Preserve formatting, structure, and layout as much as possible. If the image contains tables, maintain the table structure. Return only the extracted text without any additional commentary.'
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: `data:image/jpeg;base64,${imageBase64}`
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 4000
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      const extractedText = data.choices[0]?.message?.content || ''
-      
-      // Calculate confidence based on response quality
-      const confidence = this.calculateConfidence(extractedText)
-      
-      return { text: extractedText, confidence }
-    } catch (error) {
-      console.error('Error extracting text with OpenAI:', error)
-      throw error
-    }
-  }
-
-  async enhanceText(text: string): Promise<{ enhancedText: string; confidence: number }> {
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'user',
-              content: `Please clean up and enhance this extracted text while preserving its original meaning and structure. Fix any OCR errors, correct spelling mistakes, and improve formatting while maintaining the original layout and content structure:\n\n${text}`
-            }
-          ],
-          max_tokens: 4000
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      const enhancedText = data.choices[0]?.message?.content || text
-      
-      return { enhancedText, confidence: 0.95 }
-    } catch (error) {
-      console.error('Error enhancing text:', error)
-      return { enhancedText: text, confidence: 0.7 }
-    }
-  }
-
-  private calculateConfidence(text: string): number {
-    if (!text || text.length < 10) return 0.3
-    
-    const wordCount = text.split(/\s+/).length
-    const hasStructure = /[.!?]/.test(text)
-    const hasNumbers = /\d/.test(text)
-    const specialChars = (text.match(/[^\w\s]/g) || []).length
-    
-    let confidence = 0.5
-    if (wordCount > 20) confidence += 0.2
-    if (hasStructure) confidence += 0.15
-    if (hasNumbers) confidence += 0.1
-    if (specialChars > 5) confidence += 0.05
-    
-    return Math.min(confidence, 0.98)
-  }
+  "Access-Control-Expose-Headers": RATE_LIMIT_EXPOSE_HEADERS,
 }
 
 Deno.serve(async (req: Request) => {
@@ -155,117 +65,208 @@ Deno.serve(async (req: Request) => {
       )
     }
 
-    const requestBody: ExtractTextRequest = await req.json()
-    const { file_data, file_name, file_type, openai_api_key, user_id, enhance_text = false } = requestBody
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Validate required fields
-    if (!file_data || !file_name || !file_type) {
+    // Authenticate with a session token or a personal API key
+    let auth: AuthContext
+    try {
+      auth = await authenticate(req, supabase, 'extract')
+    } catch (authError) {
+      if (!(authError instanceof AuthError)) throw authError
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Missing required fields: file_data, file_name, file_type' 
-        }),
+        JSON.stringify({ success: false, error: authError.message }),
         {
-          status: 400,
+          status: authError.status,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
+    // Credentials and the plan are checked first: reading the file may mean a download or a storage lookup
+    let quota: QuotaStatus
+    try {
+      quota = await consumeQuota(supabase, auth.userId, 0)
+    } catch (quotaError) {
+      if (!(quotaError instanceof QuotaExceededError)) throw quotaError
+      return new Response(
+        JSON.stringify({ success: false, error: quotaError.message }),
+        {
+          status: quotaError.status,
+          headers: { ...corsHeaders, ...quotaError.headers, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    let upload: ReceivedUpload
+    try {
+      upload = await receiveUpload(req, supabase, auth.userId)
+    } catch (uploadError) {
+      if (!(uploadError instanceof UploadError)) throw uploadError
+      return new Response(
+        JSON.stringify({ success: false, error: uploadError.message }),
+        {
+          status: uploadError.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { bytes, file_name, file_type } = upload
+    const requestBody = { ...upload.fields, file_name, file_type } as ExtractTextRequest
+    const { user_id } = requestBody
+
+    if (user_id && user_id !== auth.userId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'user_id does not match the authenticated user' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Structured extraction is checked up front so a bad schema costs no upload quota
+    let structuredSchema: { schema: JsonSchema; schema_id?: string } | null
+    try {
+      structuredSchema = await resolveSchema(supabase, auth.userId, requestBody)
+    } catch (schemaError) {
+      if (!(schemaError instanceof ExtractionRequestError)) throw schemaError
+      return new Response(
+        JSON.stringify({ success: false, error: schemaError.message }),
+        {
+          status: schemaError.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // An identical file with identical settings reuses the earlier result unless the caller forces a re-run
+    const content_hash = await hashContent(bytes)
+    const settings_key = settingsKey(requestBody)
+    const cached = requestBody.force
+      ? null
+      : await findCachedExtraction(supabase, auth.userId, content_hash, settings_key)
+
+    // Charge the upload and its pages before doing any work; reused results take neither
+    try {
+      if (!cached) {
+        const pages = await countPages(bytes, file_type, file_name)
+        quota = await consumeQuota(supabase, auth.userId, bytes.length, false, pages)
+      }
+    } catch (quotaError) {
+      if (!(quotaError instanceof QuotaExceededError)) throw quotaError
+      return new Response(
+        JSON.stringify({ success: false, error: quotaError.message }),
+        {
+          status: quotaError.status,
+          headers: { ...corsHeaders, ...quotaError.headers, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Keep the original so it can be viewed and re-processed later
+    const original = cached?.storage_path
+      ? { storage_path: cached.storage_path, file_url: cached.file_url }
+      : await storeOriginal(supabase, auth.userId, upload)
+
     const startTime = Date.now()
+    let ocrOutcome: ExtractionOutcome
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    if (cached) {
+      ocrOutcome = cached.outcome
+    } else {
+      try {
+        ocrOutcome = await runExtraction(bytes, requestBody)
+      } catch (extractionError) {
+        EdgeRuntime.waitUntil(dispatchWebhooks(supabase, auth.userId, 'extraction.failed', {
+          file_name,
+          file_type,
+          error: extractionError instanceof Error ? extractionError.message : 'Internal server error'
+        }))
+        if (!(extractionError instanceof ExtractionRequestError || extractionError instanceof LLMError)) throw extractionError
 
-    let extractedText = ''
-    let confidence = 0.5
-    let extraction_id: string | undefined
+        // A rejected key is the caller's to fix; other AI provider failures are upstream errors
+        const status = extractionError instanceof LLMError
+          ? extractionError instanceof LLMAuthError ? 400 : 502
+          : extractionError.status
 
-    // Extract text based on file type
-    if (file_type.startsWith('image/')) {
-      if (!openai_api_key) {
         return new Response(
           JSON.stringify({ 
             success: false, 
-            error: 'OpenAI API key required for image text extraction' 
+            error: extractionError.message 
           }),
           {
-            status: 400,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            status,
+            headers: { ...corsHeaders, ...rateLimitHeaders(quota), 'Content-Type': 'application/json' }
           }
         )
       }
+    }
 
-      const openaiService = new OpenAIService(openai_api_key)
-      const result = await openaiService.extractTextFromImage(file_data)
-      extractedText = result.text
-      confidence = result.confidence
+    // Reused results hold the raw OCR text, so enhancement runs on them as well
+    const outcome = await enhanceOutcome(ocrOutcome, requestBody)
 
-      // Enhance text if requested
-      if (enhance_text && extractedText) {
-        const enhanced = await openaiService.enhanceText(extractedText)
-        extractedText = enhanced.enhancedText
-        confidence = Math.max(confidence, enhanced.confidence)
+    // Fields are extracted from reused text too, since the schema isn't part of the cache key
+    let structured: StructuredData | undefined
+    let structured_error: string | undefined
+    if (structuredSchema) {
+      try {
+        structured = await new OpenAIService(requestBody.openai_api_key!)
+          .extractStructuredData(outcome.extracted_text, structuredSchema.schema)
+      } catch (structuredError) {
+        // The text itself was extracted; report the failure next to it rather than discarding it
+        console.error('Structured extraction error:', structuredError)
+        structured_error = structuredError instanceof Error ? structuredError.message : 'Structured extraction failed'
       }
-    } else {
-      // For non-image files, you could add other parsers here
-      // For now, return an informative message
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Document parsing not yet implemented. Currently only supports image files.' 
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      )
     }
 
     const processingTime = Date.now() - startTime
 
-    // Save to database if user_id is provided
-    if (user_id) {
-      try {
-        // Create a temporary file URL (in production, you'd upload to storage)
-        const file_url = `temp://extracted_${Date.now()}`
-
-        const { data: insertData, error: insertError } = await supabase
-          .from('extractions')
-          .insert({
-            user_id,
-            file_name,
-            file_url,
-            file_type,
-            file_size: Math.round(file_data.length * 0.75), // Approximate size from base64
-            extracted_text: extractedText,
-            confidence_score: confidence,
-            processing_time: processingTime
-          })
-          .select('id')
-          .single()
+    // Save to the caller's history
+    const extraction_id = await saveExtraction(supabase, {
+      user_id: auth.userId,
+      file_name,
+      file_url: original.file_url,
+      file_type,
+      file_size: bytes.length,
+      processing_time: processingTime,
+      storage_path: original.storage_path,
+      content_hash,
+      settings_key,
+      duplicate_of: cached?.id,
+      ocr_text: ocrOutcome.extracted_text,
+      schema_id: structuredSchema?.schema_id,
+      structured,
+      outcome
+    })
 
-        if (insertError) {
-          console.error('Database insert error:', insertError)
-        } else {
-          extraction_id = insertData?.id
-        }
-      } catch (dbError) {
-        console.error('Database error:', dbError)
-        // Don't fail the request if database save fails
-      }
-    }
+    // Notify after responding so slow endpoints don't hold up the caller
+    EdgeRuntime.waitUntil(dispatchWebhooks(supabase, auth.userId, 'extraction.succeeded', {
+      ...outcome,
+      extraction_id,
+      duplicate_of: cached?.id,
+      structured_data: structured?.data,
+      structured_issues: structured?.issues,
+      file_name,
+      file_type,
+      processing_time: processingTime
+    }))
 
     const response: ExtractTextResponse = {
       success: true,
       data: {
-        extracted_text: extractedText,
-        confidence_score: confidence,
+        ...outcome,
         processing_time: processingTime,
         file_name,
-        extraction_id
+        extraction_id,
+        storage_path: original.storage_path,
+        duplicate_of: cached?.id,
+        structured_data: structured?.data,
+        structured_issues: structured?.issues,
+        structured_error
       }
     }
 
@@ -273,7 +274,7 @@ Deno.serve(async (req: Request) => {
       JSON.stringify(response),
       {
         status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        headers: { ...corsHeaders, ...rateLimitHeaders(quota), 'Content-Type': 'application/json' }
       }
     )
 
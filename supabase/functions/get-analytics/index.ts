@@ -1,7 +1,9 @@
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { AuthContext, AuthError, authenticate } from '../_shared/auth.ts'
 
 interface GetAnalyticsRequest {
-  user_id: string
+  // Deprecated: the caller comes from the credentials; if sent it must match them
+  user_id?: string
   date_range?: {
     start: string
     end: string
@@ -41,7 +43,7 @@ Deno.serve(async (req: Request) => {
     if (req.method === 'GET') {
       const url = new URL(req.url)
       requestData = {
-        user_id: url.searchParams.get('user_id') || '',
+        user_id: url.searchParams.get('user_id') || undefined,
         date_range: url.searchParams.get('start') && url.searchParams.get('end') ? {
           start: url.searchParams.get('start')!,
           end: url.searchParams.get('end')!
@@ -61,37 +63,48 @@ Deno.serve(async (req: Request) => {
 
     const { user_id, date_range } = requestData
 
-    // Validate required fields
-    if (!user_id) {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate with a session token or a personal API key
+    let auth: AuthContext
+    try {
+      auth = await authenticate(req, supabase, 'read')
+    } catch (authError) {
+      if (!(authError instanceof AuthError)) throw authError
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Missing required field: user_id' 
-        }),
+        JSON.stringify({ success: false, error: authError.message }),
         {
-          status: 400,
+          status: authError.status,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    if (user_id && user_id !== auth.userId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'user_id does not match the authenticated user' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
     // Get user analytics
     const { data: userAnalytics } = await supabase
       .from('user_analytics')
       .select('*')
-      .eq('user_id', user_id)
+      .eq('user_id', auth.userId)
       .single()
 
     // Get extractions for detailed analytics
     let extractionsQuery = supabase
       .from('extractions')
       .select('*')
-      .eq('user_id', user_id)
+      .eq('user_id', auth.userId)
       .order('created_at', { ascending: false })
 
     // Apply date range filter if provided
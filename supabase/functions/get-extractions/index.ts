@@ -1,7 +1,9 @@
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { AuthContext, AuthError, authenticate } from '../_shared/auth.ts'
 
 interface GetExtractionsRequest {
-  user_id: string
+  // Deprecated: the caller comes from the credentials; if sent it must match them
+  user_id?: string
   limit?: number
   offset?: number
   search?: string
@@ -41,7 +43,7 @@ Deno.serve(async (req: Request) => {
     if (req.method === 'GET') {
       const url = new URL(req.url)
       requestData = {
-        user_id: url.searchParams.get('user_id') || '',
+        user_id: url.searchParams.get('user_id') || undefined,
         limit: parseInt(url.searchParams.get('limit') || '10'),
         offset: parseInt(url.searchParams.get('offset') || '0'),
         search: url.searchParams.get('search') || undefined,
@@ -61,30 +63,41 @@ Deno.serve(async (req: Request) => {
 
     const { user_id, limit = 10, offset = 0, search, file_type } = requestData
 
-    // Validate required fields
-    if (!user_id) {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate with a session token or a personal API key
+    let auth: AuthContext
+    try {
+      auth = await authenticate(req, supabase, 'read')
+    } catch (authError) {
+      if (!(authError instanceof AuthError)) throw authError
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Missing required field: user_id' 
-        }),
+        JSON.stringify({ success: false, error: authError.message }),
         {
-          status: 400,
+          status: authError.status,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    if (user_id && user_id !== auth.userId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'user_id does not match the authenticated user' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
     // Build query
     let query = supabase
       .from('extractions')
       .select('*', { count: 'exact' })
-      .eq('user_id', user_id)
+      .eq('user_id', auth.userId)
       .order('created_at', { ascending: false })
 
     // Apply filters
@@ -0,0 +1,230 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { enhanceOutcome, ExtractionOptions, runExtraction, saveExtraction, settingsKey } from '../_shared/extraction.ts'
+import { dispatchWebhooks } from '../_shared/webhooks.ts'
+import { hashContent, storeOriginal } from '../_shared/uploads.ts'
+import { JOB_LEASE_SECONDS, JOB_UPLOAD_BUCKET, openSecret } from '../_shared/jobs.ts'
+
+interface ClaimedJob {
+  id: string
+  user_id: string
+  file_name: string
+  file_type: string
+  storage_path: string
+  options: Partial<ExtractionOptions>
+  sealed_api_key: string | null
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key",
+}
+
+// Progress is only written when it moves this many points, to spare the database
+const PROGRESS_STEP = 5
+// New jobs are only claimed this long into a run, leaving the rest of the wall-clock limit to finish them
+const CLAIM_WINDOW_MS = 30_000
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+const leaseEnd = () => new Date(Date.now() + JOB_LEASE_SECONDS * 1000).toISOString()
+
+/**
+ * Run a claimed job to completion, recording progress and the outcome on the
+ * job row, and delete its upload from job-uploads whatever the outcome. A job
+ * that was failed as abandoned meanwhile is left as it is.
+ */
+async function processJob(supabase: SupabaseClient, job: ClaimedJob) {
+  const startTime = Date.now()
+  // Every write is conditional on the job still running, so a job failed as stale stays failed
+  const update = (changes: Record<string, unknown>) =>
+    supabase.from('extraction_jobs').update(changes).eq('id', job.id).eq('status', 'running').select('id')
+
+  const heartbeat = setInterval(() => {
+    update({ lease_expires_at: leaseEnd() }).then(({ error }) => {
+      if (error) console.error('Lease renewal error:', error)
+    })
+  }, (JOB_LEASE_SECONDS * 1000) / 3)
+
+  const request: ExtractionOptions = {
+    ...job.options,
+    file_name: job.file_name,
+    file_type: job.file_type
+  }
+
+  try {
+    if (job.sealed_api_key) {
+      request.openai_api_key = await openSecret(job.sealed_api_key)
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(JOB_UPLOAD_BUCKET)
+      .download(job.storage_path)
+    if (downloadError || !file) {
+      throw new Error('The uploaded file is no longer available')
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer())
+
+    let reported = 0
+    const ocrOutcome = await runExtraction(bytes, request, fraction => {
+      const progress = Math.min(99, Math.round(fraction * 100))
+      if (progress - reported >= PROGRESS_STEP) {
+        reported = progress
+        update({ progress, lease_expires_at: leaseEnd() }).then(({ error }) => {
+          if (error) console.error('Progress update error:', error)
+        })
+      }
+    })
+
+    const outcome = await enhanceOutcome(ocrOutcome, request)
+
+    const processingTime = Date.now() - startTime
+
+    // job-uploads is scratch space; the original is kept with the user's documents like any other upload
+    const original = await storeOriginal(supabase, job.user_id, {
+      bytes,
+      file_name: job.file_name,
+      file_type: job.file_type
+    })
+    const extraction_id = await saveExtraction(supabase, {
+      user_id: job.user_id,
+      file_name: job.file_name,
+      file_url: original.file_url,
+      file_type: job.file_type,
+      file_size: bytes.length,
+      processing_time: processingTime,
+      storage_path: original.storage_path,
+      content_hash: await hashContent(bytes),
+      // Jobs always run, but their results can serve later extract-text calls
+      settings_key: settingsKey(request),
+      ocr_text: ocrOutcome.extracted_text,
+      outcome
+    })
+
+    const result = {
+      ...outcome,
+      processing_time: processingTime,
+      file_name: job.file_name,
+      extraction_id,
+      storage_path: original.storage_path
+    }
+    const { data: updated, error: updateError } = await update({
+      status: 'succeeded',
+      progress: 100,
+      extraction_id,
+      completed_at: new Date().toISOString(),
+      result,
+      lease_expires_at: null,
+      sealed_api_key: null
+    })
+    if (updateError) throw updateError
+    if (!updated?.length) return
+
+    await dispatchWebhooks(supabase, job.user_id, 'extraction.succeeded', {
+      ...result,
+      job_id: job.id,
+      file_type: job.file_type
+    })
+  } catch (error) {
+    console.error(`Job ${job.id} failed:`, error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    const { data: updated } = await update({
+      status: 'failed',
+      error: message,
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null,
+      sealed_api_key: null
+    })
+    if (!updated?.length) return
+
+    await dispatchWebhooks(supabase, job.user_id, 'extraction.failed', {
+      job_id: job.id,
+      file_name: job.file_name,
+      file_type: job.file_type,
+      error: message
+    })
+  } finally {
+    clearInterval(heartbeat)
+    const { error } = await supabase.storage.from(JOB_UPLOAD_BUCKET).remove([job.storage_path])
+    if (error) console.error(`Failed to delete upload of job ${job.id}:`, error)
+  }
+}
+
+/**
+ * Fail running jobs whose worker stopped renewing the lease (it hit the
+ * wall-clock limit or crashed), delete their uploads and tell the user.
+ */
+async function failStaleJobs(supabase: SupabaseClient): Promise<number> {
+  const { data: jobs, error } = await supabase.rpc('fail_stale_extraction_jobs')
+  if (error) throw new Error(`Failed to fail stale jobs: ${error.message}`)
+
+  const stale = (jobs ?? []) as ClaimedJob[]
+  if (stale.length === 0) return 0
+
+  const { error: removeError } = await supabase.storage
+    .from(JOB_UPLOAD_BUCKET)
+    .remove(stale.map(job => job.storage_path))
+  if (removeError) console.error('Failed to delete uploads of stale jobs:', removeError)
+
+  for (const job of stale) {
+    await dispatchWebhooks(supabase, job.user_id, 'extraction.failed', {
+      job_id: job.id,
+      file_name: job.file_name,
+      file_type: job.file_type,
+      error: 'The job stopped responding and was abandoned'
+    })
+  }
+  return stale.length
+}
+
+// Invoked on a schedule (see the jobs worker migration) to run queued jobs one after another
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Only the scheduler, holding the service role key, may run jobs
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const startTime = Date.now()
+
+    const abandoned = await failStaleJobs(supabase)
+
+    let processed = 0
+    while (Date.now() - startTime < CLAIM_WINDOW_MS) {
+      const { data: claimed, error } = await supabase.rpc('claim_extraction_job', {
+        p_lease_seconds: JOB_LEASE_SECONDS
+      })
+      if (error) throw new Error(`Failed to claim a job: ${error.message}`)
+
+      const [job] = (claimed ?? []) as ClaimedJob[]
+      if (!job) break
+
+      await processJob(supabase, job)
+      processed++
+    }
+
+    return jsonResponse({ success: true, data: { processed, abandoned } }, 200)
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, 500)
+  }
+})
@@ -0,0 +1,215 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { ExtractionOptions } from '../_shared/extraction.ts'
+import { AuthError, authenticate } from '../_shared/auth.ts'
+import { JOB_UPLOAD_BUCKET, sealSecret } from '../_shared/jobs.ts'
+import { consumeQuota, countPages, fileSizeError, QuotaExceededError, RATE_LIMIT_EXPOSE_HEADERS, rateLimitHeaders } from '../_shared/quotas.ts'
+import { decodeFileData, UploadError } from '../_shared/uploads.ts'
+
+interface SubmitJobRequest extends ExtractionOptions {
+  file_data: string // base64 encoded file
+  // Deprecated: the caller comes from the credentials; if sent it must match them
+  user_id?: string
+}
+
+type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+interface JobResponse {
+  success: boolean
+  data?: {
+    job_id: string
+    status: JobStatus
+    progress: number
+    error?: string | null
+    file_name: string
+    created_at: string
+    started_at?: string | null
+    completed_at?: string | null
+    result?: unknown
+  }
+  error?: string
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key",
+  "Access-Control-Expose-Headers": RATE_LIMIT_EXPOSE_HEADERS,
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const jsonResponse = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' }
+  })
+
+/**
+ * Queue a job: store the file and insert the job row. The jobs-worker
+ * function picks it up on its next scheduled run.
+ */
+async function submitJob(req: Request, supabase: SupabaseClient, userId: string): Promise<Response> {
+  let requestBody: SubmitJobRequest
+  try {
+    requestBody = await req.json()
+  } catch {
+    return jsonResponse({ success: false, error: 'Request body must be valid JSON' }, 400)
+  }
+  const { file_data, file_name, file_type, user_id } = requestBody
+
+  // Validate required fields
+  if (!file_data || !file_name || !file_type) {
+    return jsonResponse({ success: false, error: 'Missing required fields: file_data, file_name, file_type' }, 400)
+  }
+  if (typeof file_data !== 'string') {
+    return jsonResponse({ success: false, error: 'file_data must be base64 encoded' }, 400)
+  }
+  if (user_id && user_id !== userId) {
+    return jsonResponse({ success: false, error: 'user_id does not match the authenticated user' }, 403)
+  }
+
+  // As in extract-text: the request and daily quotas first, then the size before anything is decoded
+  let quota = await consumeQuota(supabase, userId, 0)
+  if (file_data.length * 0.75 > quota.max_file_bytes) {
+    throw fileSizeError(quota)
+  }
+  const bytes = decodeFileData(file_data)
+  quota = await consumeQuota(supabase, userId, bytes.length, false, await countPages(bytes, file_type, file_name))
+  const jobId = crypto.randomUUID()
+  const storagePath = `${jobId}/${file_name.replace(/[^\w.-]+/g, '_')}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(JOB_UPLOAD_BUCKET)
+    .upload(storagePath, bytes, { contentType: file_type })
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError)
+    return jsonResponse({ success: false, error: 'Failed to store upload' }, 500)
+  }
+
+  // Options are readable by the user; the API key is only kept sealed until the job ends
+  const options = {
+    enhance_text: requestBody.enhance_text,
+    provider: requestBody.provider,
+    ocr_language: requestBody.ocr_language,
+    ocr_model: requestBody.ocr_model
+  }
+
+  const { data: job, error: insertError } = await supabase
+    .from('extraction_jobs')
+    .insert({
+      id: jobId,
+      user_id: userId,
+      file_name,
+      file_type,
+      file_size: bytes.length,
+      storage_path: storagePath,
+      options,
+      sealed_api_key: requestBody.openai_api_key ? await sealSecret(requestBody.openai_api_key) : null
+    })
+    .select('id, status, progress, file_name, created_at')
+    .single()
+
+  if (insertError || !job) {
+    console.error('Database insert error:', insertError)
+    await supabase.storage.from(JOB_UPLOAD_BUCKET).remove([storagePath])
+    return jsonResponse({ success: false, error: 'Failed to create job' }, 500)
+  }
+
+  const response: JobResponse = {
+    success: true,
+    data: {
+      job_id: job.id,
+      status: job.status,
+      progress: job.progress,
+      file_name: job.file_name,
+      created_at: job.created_at
+    }
+  }
+  return jsonResponse(response, 202, rateLimitHeaders(quota))
+}
+
+async function getJob(jobId: string, supabase: SupabaseClient, userId: string): Promise<Response> {
+  if (!UUID_PATTERN.test(jobId)) {
+    return jsonResponse({ success: false, error: 'Job not found' }, 404)
+  }
+
+  const { data: job, error } = await supabase
+    .from('extraction_jobs')
+    .select('id, status, progress, error, file_name, created_at, started_at, completed_at, result')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Database query error:', error)
+    return jsonResponse({ success: false, error: 'Failed to fetch job' }, 500)
+  }
+  if (!job) {
+    return jsonResponse({ success: false, error: 'Job not found' }, 404)
+  }
+
+  const response: JobResponse = {
+    success: true,
+    data: {
+      job_id: job.id,
+      status: job.status,
+      progress: job.progress,
+      error: job.error,
+      file_name: job.file_name,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      completed_at: job.completed_at,
+      result: job.result
+    }
+  }
+  return jsonResponse(response, 200)
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Routes: POST /jobs and GET /jobs/:id
+    const [, jobId] = new URL(req.url).pathname.split('/').filter(Boolean)
+
+    if (req.method === 'POST' && !jobId) {
+      const auth = await authenticate(req, supabase, 'extract')
+      return await submitJob(req, supabase, auth.userId)
+    }
+    if (req.method === 'GET' && jobId) {
+      const auth = await authenticate(req, supabase, 'read')
+      return await getJob(jobId, supabase, auth.userId)
+    }
+
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ success: false, error: error.message }, error.status)
+    }
+    if (error instanceof QuotaExceededError) {
+      return jsonResponse({ success: false, error: error.message }, error.status, error.headers)
+    }
+    if (error instanceof UploadError) {
+      return jsonResponse({ success: false, error: error.message }, error.status)
+    }
+    console.error('Function error:', error)
+
+    const errorResponse: JobResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }
+    return jsonResponse(errorResponse, 500)
+  }
+})
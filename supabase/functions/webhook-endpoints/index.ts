@@ -0,0 +1,91 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { AuthError, authenticate } from '../_shared/auth.ts'
+import { assertPublicUrl, PublicUrlError } from '../_shared/network.ts'
+import { generateSecret, WEBHOOK_EVENTS, WebhookEvent } from '../_shared/webhooks.ts'
+
+interface CreateEndpointRequest {
+  url?: unknown
+  description?: unknown
+  events?: unknown
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key",
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+// Endpoints are only created here, so every URL is checked against private hosts before it is stored
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const auth = await authenticate(req, supabase, 'extract')
+
+    let body: CreateEndpointRequest
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Request body must be valid JSON' }, 400)
+    }
+
+    let url: URL
+    try {
+      url = new URL(typeof body.url === 'string' ? body.url : '')
+    } catch {
+      return jsonResponse({ success: false, error: 'url is not a valid URL' }, 400)
+    }
+    await assertPublicUrl(url, 'url', ['https:'])
+
+    const events = Array.isArray(body.events) ? body.events : [...WEBHOOK_EVENTS]
+    if (events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent))) {
+      return jsonResponse({ success: false, error: `events must be a non-empty list of ${WEBHOOK_EVENTS.join(', ')}` }, 400)
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({
+        user_id: auth.userId,
+        url: url.href,
+        description: typeof body.description === 'string' ? body.description.slice(0, 200) : '',
+        events: [...new Set(events)],
+        secret: generateSecret()
+      })
+      .select('id, url, description, secret, events, active, created_at')
+      .single()
+
+    if (error) throw error
+
+    return jsonResponse({ success: true, data }, 201)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ success: false, error: error.message }, error.status)
+    }
+    if (error instanceof PublicUrlError) {
+      return jsonResponse({ success: false, error: error.message }, 400)
+    }
+
+    console.error('Function error:', error)
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500)
+  }
+})
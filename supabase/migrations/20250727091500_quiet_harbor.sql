@@ -0,0 +1,16 @@
+/*
+  # Store structured OCR layout alongside extracted text
+
+  1. Changes
+    - `extractions`
+      - `ocr_layout` (jsonb, nullable) - Pages, blocks, lines and words with
+        bounding boxes and per-element confidence. `extracted_text` remains the
+        flat text view derived from it.
+
+  2. Notes
+    - Existing rows keep `ocr_layout` as NULL; they were extracted before
+      structured output was recorded.
+*/
+
+ALTER TABLE extractions
+  ADD COLUMN IF NOT EXISTS ocr_layout jsonb;
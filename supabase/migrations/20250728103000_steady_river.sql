@@ -0,0 +1,65 @@
+/*
+  # Asynchronous extraction jobs
+
+  1. New Tables
+    - `extraction_jobs` - One row per file submitted to POST /jobs
+      - `id` (uuid, primary key) - Job id returned to the client
+      - `user_id` (uuid, nullable, references auth.users) - Owner, when known
+      - `status` (text) - queued, running, succeeded or failed
+      - `progress` (integer) - 0 to 100
+      - `error` (text, nullable) - Failure reason
+      - `file_name` (text) - Original filename
+      - `file_type` (text) - MIME type
+      - `file_size` (bigint) - File size in bytes
+      - `storage_path` (text) - Upload location in the `job-uploads` bucket
+      - `options` (jsonb) - Extraction options, never including API keys
+      - `result` (jsonb, nullable) - Final extraction result once succeeded
+      - `extraction_id` (uuid, nullable, references extractions)
+      - `created_at`, `updated_at`, `started_at`, `completed_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users can read their own jobs. Jobs are created and
+      updated by the jobs edge function with the service role.
+
+  3. Storage
+    - Private `job-uploads` bucket holding the submitted files
+*/
+
+CREATE TABLE IF NOT EXISTS extraction_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  progress integer NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  error text,
+  file_name text NOT NULL,
+  file_type text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0,
+  storage_path text NOT NULL,
+  options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  result jsonb,
+  extraction_id uuid REFERENCES extractions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+ALTER TABLE extraction_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own extraction jobs"
+  ON extraction_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_user_id ON extraction_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_status ON extraction_jobs(status);
+
+CREATE TRIGGER update_extraction_jobs_updated_at
+  BEFORE UPDATE ON extraction_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('job-uploads', 'job-uploads', false)
+ON CONFLICT (id) DO NOTHING;
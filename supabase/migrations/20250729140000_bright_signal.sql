@@ -0,0 +1,98 @@
+/*
+  # Webhook endpoints and delivery log
+
+  1. New Tables
+    - `webhook_endpoints` - URLs a user wants notified when extractions finish
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `url` (text) - HTTPS endpoint receiving the POST
+      - `description` (text) - Label shown in Settings
+      - `secret` (text) - Shared secret for the HMAC signature
+      - `events` (text[]) - Subscribed events: extraction.succeeded, extraction.failed
+      - `active` (boolean) - Paused endpoints receive nothing
+      - `created_at`, `updated_at` (timestamptz)
+
+    - `webhook_deliveries` - One row per event sent to an endpoint
+      - `id` (uuid, primary key)
+      - `endpoint_id` (uuid, references webhook_endpoints)
+      - `user_id` (uuid, references auth.users)
+      - `event` (text)
+      - `payload` (jsonb) - Exact body that is signed and sent
+      - `status` (text) - pending, succeeded or failed
+      - `attempts` (integer) - Delivery attempts so far
+      - `response_status` (integer, nullable) - HTTP status of the last attempt
+      - `last_error` (text, nullable) - Network error or truncated response body
+      - `next_attempt_at` (timestamptz, nullable) - When a pending delivery is retried
+      - `delivered_at` (timestamptz, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users manage their own endpoints and can read their own
+      deliveries. Deliveries are written by edge functions with the service role.
+
+  3. Notes
+    - Pending deliveries are retried by the `webhook-retry` edge function.
+      Schedule it every minute, e.g. with pg_cron and pg_net:
+        select cron.schedule('webhook-retry', '* * * * *', $$
+          select net.http_post(url := '<project-url>/functions/v1/webhook-retry',
+            headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb)
+        $$);
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  description text NOT NULL DEFAULT '',
+  secret text NOT NULL,
+  events text[] NOT NULL DEFAULT ARRAY['extraction.succeeded', 'extraction.failed'],
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid REFERENCES webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  response_status integer,
+  last_error text,
+  next_attempt_at timestamptz DEFAULT now(),
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own webhook endpoints"
+  ON webhook_endpoints
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user_id ON webhook_deliveries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
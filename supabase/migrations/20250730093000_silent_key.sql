@@ -0,0 +1,48 @@
+/*
+  # Personal API keys
+
+  1. New Tables
+    - `api_keys` - Machine credentials sent in the `x-api-key` header
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - Label chosen by the user
+      - `prefix` (text) - First characters of the key, shown to tell keys apart
+      - `key_hash` (text, unique) - SHA-256 of the key, hex encoded; the key itself is never stored
+      - `scopes` (text[]) - Any of `read` and `extract`
+      - `last_used_at` (timestamptz, nullable)
+      - `revoked_at` (timestamptz, nullable) - Revoked keys stay listed but stop working
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users manage their own keys. Edge functions look keys up
+      by hash with the service role.
+*/
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  scopes text[] NOT NULL DEFAULT ARRAY['read', 'extract'] CHECK (scopes <@ ARRAY['read', 'extract'] AND cardinality(scopes) > 0),
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own API keys"
+  ON api_keys
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+
+CREATE TRIGGER update_api_keys_updated_at
+  BEFORE UPDATE ON api_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
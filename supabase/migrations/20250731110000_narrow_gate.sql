@@ -0,0 +1,206 @@
+/*
+  # Plans, quotas and rate limiting
+
+  1. New Tables
+    - `plans` - Limits applied to the extraction API
+      - `id` (text, primary key) - `free`, `pro`, ...
+      - `name` (text) - Display name
+      - `requests_per_minute` (integer) - Extraction requests allowed per minute
+      - `daily_pages` (integer) - Pages (images, PDF pages, sheets) extracted per UTC day
+      - `daily_bytes` (bigint) - Upload bytes accepted per UTC day
+      - `max_file_bytes` (bigint) - Largest single file accepted
+      - `created_at`, `updated_at` (timestamptz)
+    - `user_plans` - Plan assignment; users without a row are on `free`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `plan_id` (text, references plans)
+      - `created_at`, `updated_at` (timestamptz)
+    - `usage_counters` - Usage per user and window
+      - `user_id` (uuid, references auth.users)
+      - `period` (text) - `minute` or `day`
+      - `period_start` (timestamptz) - Start of the window, UTC
+      - `requests` (integer), `pages` (integer), `bytes` (bigint)
+
+  2. Functions
+    - `consume_quota(user_id, bytes)` - Counts one extraction request and
+      reserves its upload bytes, in one transaction. Returns the plan limits,
+      current usage and whether the request is allowed. Only the service role
+      may call it.
+    - `record_page_usage(user_id, pages)` - Adds pages once an extraction has
+      finished; page counts aren't known before parsing. Service role only.
+    - `get_quota_status()` - Plan limits and today's usage for the signed-in user
+
+  3. Security
+    - Enable RLS; everyone signed in can read plans, users can read their own
+      plan and counters. Plans are assigned with the service role.
+
+  4. Notes
+    - Minute counters older than the current window are pruned by
+      `consume_quota`; day counters are kept as a usage history.
+*/
+
+CREATE TABLE IF NOT EXISTS plans (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  requests_per_minute integer NOT NULL CHECK (requests_per_minute > 0),
+  daily_pages integer NOT NULL CHECK (daily_pages > 0),
+  daily_bytes bigint NOT NULL CHECK (daily_bytes > 0),
+  max_file_bytes bigint NOT NULL CHECK (max_file_bytes > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO plans (id, name, requests_per_minute, daily_pages, daily_bytes, max_file_bytes)
+VALUES
+  ('free', 'Free', 10, 100, 100 * 1024 * 1024, 10 * 1024 * 1024),
+  ('pro', 'Pro', 60, 2000, 2048::bigint * 1024 * 1024, 50 * 1024 * 1024)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS user_plans (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id text NOT NULL DEFAULT 'free' REFERENCES plans(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS usage_counters (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period text NOT NULL CHECK (period IN ('minute', 'day')),
+  period_start timestamptz NOT NULL,
+  requests integer NOT NULL DEFAULT 0,
+  pages integer NOT NULL DEFAULT 0,
+  bytes bigint NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, period, period_start)
+);
+
+ALTER TABLE plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read plans"
+  ON plans
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read their own plan"
+  ON user_plans
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own usage"
+  ON usage_counters
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_plans_updated_at
+  BEFORE UPDATE ON plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_user_plans_updated_at
+  BEFORE UPDATE ON user_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Count a request and reserve its bytes; rejected requests still count towards the minute window
+CREATE OR REPLACE FUNCTION consume_quota(p_user_id uuid, p_bytes bigint)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan plans%ROWTYPE;
+  v_minute timestamptz := date_trunc('minute', now());
+  v_day timestamptz := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_requests integer;
+  v_pages integer;
+  v_bytes bigint;
+  v_reason text;
+BEGIN
+  SELECT * INTO v_plan
+  FROM plans
+  WHERE id = COALESCE((SELECT plan_id FROM user_plans WHERE user_id = p_user_id), 'free');
+
+  DELETE FROM usage_counters
+  WHERE user_id = p_user_id AND period = 'minute' AND period_start < v_minute;
+
+  INSERT INTO usage_counters (user_id, period, period_start, requests)
+  VALUES (p_user_id, 'minute', v_minute, 1)
+  ON CONFLICT (user_id, period, period_start) DO UPDATE SET
+    requests = usage_counters.requests + 1
+  RETURNING requests INTO v_requests;
+
+  -- Lock today's row so concurrent requests can't both squeeze under the limit
+  INSERT INTO usage_counters (user_id, period, period_start)
+  VALUES (p_user_id, 'day', v_day)
+  ON CONFLICT (user_id, period, period_start) DO NOTHING;
+
+  SELECT pages, bytes INTO v_pages, v_bytes
+  FROM usage_counters
+  WHERE user_id = p_user_id AND period = 'day' AND period_start = v_day
+  FOR UPDATE;
+
+  IF v_requests > v_plan.requests_per_minute THEN
+    v_reason := 'rate_limit';
+  ELSIF p_bytes > v_plan.max_file_bytes THEN
+    v_reason := 'file_size';
+  ELSIF v_pages >= v_plan.daily_pages OR v_bytes + p_bytes > v_plan.daily_bytes THEN
+    v_reason := 'daily_quota';
+  ELSE
+    UPDATE usage_counters SET
+      requests = requests + 1,
+      bytes = bytes + p_bytes
+    WHERE user_id = p_user_id AND period = 'day' AND period_start = v_day
+    RETURNING bytes INTO v_bytes;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_reason IS NULL,
+    'reason', v_reason,
+    'plan', v_plan.id,
+    'requests_per_minute', v_plan.requests_per_minute,
+    'requests_used', v_requests,
+    'minute_reset', v_minute + interval '1 minute',
+    'daily_pages', v_plan.daily_pages,
+    'pages_used', v_pages,
+    'daily_bytes', v_plan.daily_bytes,
+    'bytes_used', v_bytes,
+    'max_file_bytes', v_plan.max_file_bytes,
+    'day_reset', v_day + interval '1 day'
+  );
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION record_page_usage(p_user_id uuid, p_pages integer)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO usage_counters (user_id, period, period_start, pages)
+  VALUES (p_user_id, 'day', date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC', p_pages)
+  ON CONFLICT (user_id, period, period_start) DO UPDATE SET
+    pages = usage_counters.pages + p_pages;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION consume_quota(uuid, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_page_usage(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Runs with the caller's rights, so RLS limits it to the signed-in user's rows
+CREATE OR REPLACE FUNCTION get_quota_status()
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'plan', p.id,
+    'plan_name', p.name,
+    'requests_per_minute', p.requests_per_minute,
+    'daily_pages', p.daily_pages,
+    'pages_used', COALESCE(u.pages, 0),
+    'daily_bytes', p.daily_bytes,
+    'bytes_used', COALESCE(u.bytes, 0),
+    'max_file_bytes', p.max_file_bytes,
+    'day_reset', date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' + interval '1 day'
+  )
+  FROM plans p
+  LEFT JOIN usage_counters u
+    ON u.user_id = auth.uid()
+    AND u.period = 'day'
+    AND u.period_start = date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  WHERE p.id = COALESCE((SELECT plan_id FROM user_plans WHERE user_id = auth.uid()), 'free');
+$$ language 'sql' STABLE;
@@ -0,0 +1,20 @@
+/*
+  # Keep uploaded originals for API extractions
+
+  1. Changes
+    - `extractions`
+      - `storage_path` (text, nullable) - Object path of the original in the
+        `documents` bucket, `<user_id>/...`. Pass it back as `storage_path` to
+        re-run an extraction.
+      - `content_hash` (text, nullable) - SHA-256 of the original, hex encoded
+
+  2. Notes
+    - Rows created before this change keep both columns NULL; API extractions
+      among them have a `temp://` file_url and no retrievable original.
+*/
+
+ALTER TABLE extractions
+  ADD COLUMN IF NOT EXISTS storage_path text,
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_extractions_user_content_hash ON extractions(user_id, content_hash);
@@ -0,0 +1,26 @@
+/*
+  # Reuse results for files that were already extracted
+
+  1. Changes
+    - `extractions`
+      - `settings_key` (text, nullable) - Canonical JSON of the settings that
+        affect the result (engine, languages, provider, enhancement, ...).
+        Together with `content_hash` it identifies a cacheable result.
+      - `duplicate_of` (uuid, nullable, references extractions) - Set when the
+        row reuses the result of an earlier extraction instead of running OCR
+
+  2. Notes
+    - Cache lookups match `user_id`, `content_hash` and `settings_key` on rows
+      that aren't duplicates themselves, so chains always point at the row
+      that actually ran.
+    - Deleting the original keeps its duplicates; their `duplicate_of` is cleared.
+*/
+
+ALTER TABLE extractions
+  ADD COLUMN IF NOT EXISTS settings_key text,
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES extractions(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS idx_extractions_user_content_hash;
+CREATE INDEX IF NOT EXISTS idx_extractions_user_content_settings
+  ON extractions(user_id, content_hash, settings_key)
+  WHERE duplicate_of IS NULL;
@@ -0,0 +1,55 @@
+/*
+  # Schema-driven structured data
+
+  1. New Tables
+    - `extraction_schemas` - JSON Schemas describing the fields to pull out of a document
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - e.g. "Invoice"
+      - `description` (text, nullable)
+      - `schema` (jsonb) - JSON Schema of an object
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `extractions`
+      - `structured_data` (jsonb, nullable) - Validated fields; values not found
+        in the document, or that failed validation, are left out
+      - `structured_issues` (jsonb, nullable) - Array of `{ path, kind, message }`
+        with `kind` either `missing` or `invalid`
+      - `schema_id` (uuid, nullable, references extraction_schemas) - Schema
+        the data was extracted with, when it was a saved one
+
+  3. Security
+    - Enable RLS; users manage their own schemas
+*/
+
+CREATE TABLE IF NOT EXISTS extraction_schemas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  schema jsonb NOT NULL CHECK (schema->>'type' = 'object'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE extraction_schemas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own extraction schemas"
+  ON extraction_schemas
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_schemas_user_id ON extraction_schemas(user_id);
+
+CREATE TRIGGER update_extraction_schemas_updated_at
+  BEFORE UPDATE ON extraction_schemas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE extractions
+  ADD COLUMN IF NOT EXISTS structured_data jsonb,
+  ADD COLUMN IF NOT EXISTS structured_issues jsonb,
+  ADD COLUMN IF NOT EXISTS schema_id uuid REFERENCES extraction_schemas(id) ON DELETE SET NULL;
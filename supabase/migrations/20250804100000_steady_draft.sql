@@ -0,0 +1,116 @@
+/*
+  # Versions of extracted text
+
+  1. New Tables
+    - `extraction_versions` - Every text an extraction has had
+      - `id` (uuid, primary key)
+      - `extraction_id` (uuid, references extractions)
+      - `author_id` (uuid, references auth.users) - Who created the version
+      - `kind` (text) - `ocr`, `enhancement` or `edit`
+      - `text` (text)
+      - `settings` (jsonb, nullable) - What produced it: the extraction's
+        settings for `ocr`, model and parameters for `enhancement`
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `extractions`
+      - `current_version_id` (uuid, nullable, references extraction_versions) -
+        The version shown as the extraction's text. `extracted_text` always
+        holds a copy of it, so search, exports and the API keep working.
+
+  3. Triggers
+    - Every new extraction gets its first version from `extracted_text`:
+      `enhancement` when its settings enabled enhance_text, `ocr` otherwise.
+
+  4. Security
+    - Enable RLS; users read and add versions of their own extractions.
+      Versions are never changed; they go away with their extraction.
+
+  5. Notes
+    - Existing extractions get one `ocr` version with their current text.
+*/
+
+CREATE TABLE IF NOT EXISTS extraction_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  extraction_id uuid REFERENCES extractions(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('ocr', 'enhancement', 'edit')),
+  text text NOT NULL,
+  settings jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE extraction_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read versions of their own extractions"
+  ON extraction_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM extractions WHERE extractions.id = extraction_id AND extractions.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can add versions to their own extractions"
+  ON extraction_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM extractions WHERE extractions.id = extraction_id AND extractions.user_id = auth.uid())
+  );
+
+CREATE INDEX IF NOT EXISTS idx_extraction_versions_extraction_id ON extraction_versions(extraction_id, created_at);
+
+ALTER TABLE extractions
+  ADD COLUMN IF NOT EXISTS current_version_id uuid REFERENCES extraction_versions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION create_initial_extraction_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_version_id uuid;
+BEGIN
+  -- settings_key is canonical JSON, but nothing enforces it
+  BEGIN
+    v_settings := NEW.settings_key::jsonb;
+  EXCEPTION WHEN others THEN
+    v_settings := NULL;
+  END;
+
+  INSERT INTO extraction_versions (extraction_id, author_id, kind, text, settings, created_at)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    CASE WHEN v_settings->>'enhance_text' = 'true' THEN 'enhancement' ELSE 'ocr' END,
+    NEW.extracted_text,
+    v_settings,
+    NEW.created_at
+  )
+  RETURNING id INTO v_version_id;
+
+  UPDATE extractions SET current_version_id = v_version_id WHERE id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_extraction_initial_version ON extractions;
+CREATE TRIGGER create_extraction_initial_version
+  AFTER INSERT ON extractions
+  FOR EACH ROW
+  EXECUTE FUNCTION create_initial_extraction_version();
+
+WITH initial AS (
+  INSERT INTO extraction_versions (extraction_id, author_id, kind, text, created_at)
+  SELECT id, user_id, 'ocr', extracted_text, created_at
+  FROM extractions
+  WHERE current_version_id IS NULL
+  RETURNING id, extraction_id
+)
+UPDATE extractions
+SET current_version_id = initial.id
+FROM initial
+WHERE extractions.id = initial.extraction_id;
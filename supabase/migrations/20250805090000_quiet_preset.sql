@@ -0,0 +1,50 @@
+/*
+  # Enhancement presets
+
+  1. New Tables
+    - `enhancement_presets` - Named instructions for AI text enhancement
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - e.g. "Legal: preserve numbering"
+      - `description` (text, nullable)
+      - `instructions` (text) - System prompt template; `{{file_name}}`,
+        `{{language}}` and `{{document_type}}` are filled in per extraction
+      - `is_shared` (boolean) - Visible to every signed-in user
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users manage their own presets and can read shared ones
+*/
+
+CREATE TABLE IF NOT EXISTS enhancement_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  instructions text NOT NULL CHECK (length(trim(instructions)) > 0),
+  is_shared boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE enhancement_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own enhancement presets"
+  ON enhancement_presets
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read shared enhancement presets"
+  ON enhancement_presets
+  FOR SELECT
+  TO authenticated
+  USING (is_shared);
+
+CREATE INDEX IF NOT EXISTS idx_enhancement_presets_user_id ON enhancement_presets(user_id);
+
+CREATE TRIGGER update_enhancement_presets_updated_at
+  BEFORE UPDATE ON enhancement_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
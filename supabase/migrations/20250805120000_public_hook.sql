@@ -0,0 +1,49 @@
+/*
+  # Webhook endpoints: public https URLs only
+
+  1. Changes
+    - `webhook_endpoints.url` must use https. Existing http endpoints are
+      paused rather than deleted, so their owners can see and replace them.
+    - `webhook_deliveries.last_error` no longer holds response bodies; the
+      ones already stored are replaced by the status code.
+
+  2. Security
+    - Endpoints are created only through the `webhook-endpoints` edge
+      function, which rejects URLs resolving to private, loopback or
+      link-local addresses. Users can still read, pause, relabel and delete
+      their own endpoints, but no longer insert them or change their URL.
+*/
+
+UPDATE webhook_endpoints SET active = false WHERE url !~ '^https://';
+
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_url_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_url_check CHECK (url ~ '^https://') NOT VALID;
+
+UPDATE webhook_deliveries
+SET last_error = 'Endpoint responded with HTTP ' || response_status
+WHERE response_status IS NOT NULL AND last_error IS NOT NULL;
+
+DROP POLICY IF EXISTS "Users can manage their own webhook endpoints" ON webhook_endpoints;
+
+CREATE POLICY "Users can read their own webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own webhook endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own webhook endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Column privileges keep the URL out of reach of updates from the client
+REVOKE INSERT, UPDATE ON webhook_endpoints FROM anon, authenticated;
+GRANT UPDATE (description, events, active) ON webhook_endpoints TO authenticated;
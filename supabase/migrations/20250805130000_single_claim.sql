@@ -0,0 +1,40 @@
+/*
+  # Claim webhook deliveries before sending them
+
+  1. Changes
+    - `webhook_deliveries.status` gains `delivering`: a worker has claimed
+      the delivery and is sending it. `next_attempt_at` is then the end of
+      the claim; a worker that dies mid-attempt leaves the delivery to be
+      claimed again once it has passed.
+
+  2. Functions
+    - `claim_webhook_deliveries(p_limit)` - Atomically marks up to p_limit
+      due deliveries as `delivering` and returns them. Rows locked by a
+      concurrent claim are skipped, so overlapping retry runs never send the
+      same delivery twice. Service role only.
+*/
+
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed'));
+
+DROP INDEX IF EXISTS idx_webhook_deliveries_due;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit integer, p_lease_seconds integer DEFAULT 120)
+RETURNS SETOF webhook_deliveries AS $$
+  UPDATE webhook_deliveries
+  SET status = 'delivering',
+      next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM webhook_deliveries
+    WHERE status IN ('pending', 'delivering') AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,114 @@
+/*
+  # Keep the raw OCR text apart from the current text
+
+  1. Changes
+    - `extractions`
+      - `ocr_text` (text, nullable) - The text exactly as OCR or parsing
+        produced it, never changed afterwards. Reusing an earlier result for
+        the same content and settings reads this column: `extracted_text`
+        follows the current version, which may be an AI enhancement or a
+        manual edit that doesn't match `ocr_layout`.
+
+  2. Functions
+    - `create_initial_extraction_version()` now always records an `ocr`
+      version from `ocr_text`. When `extracted_text` differs (the API enhanced
+      it while extracting), an `enhancement` version follows and is current.
+    - `add_extraction_version(p_extraction_id, p_kind, p_text, p_settings)` -
+      Adds a version and makes it current in one transaction, so a failure
+      can't leave a version behind that isn't current. Runs with the caller's
+      rights: RLS decides whose extractions it may touch.
+
+  3. Notes
+    - Existing extractions get `ocr_text` from their `ocr` version. API
+      results enhanced while extracting never kept their raw text; they stay
+      without `ocr_text`, are no longer reused, and their only version is
+      relabelled as an enhancement.
+    - The API's settings_key no longer includes enhancement, which now runs
+      on reused results too, so earlier API results are not reused once.
+*/
+
+ALTER TABLE extractions ADD COLUMN IF NOT EXISTS ocr_text text;
+
+UPDATE extraction_versions v
+SET kind = 'enhancement'
+FROM extractions e
+WHERE v.extraction_id = e.id
+  AND v.kind = 'ocr'
+  AND e.settings_key LIKE '%"enhance_text":true%';
+
+UPDATE extractions e
+SET ocr_text = (
+  SELECT v.text
+  FROM extraction_versions v
+  WHERE v.extraction_id = e.id AND v.kind = 'ocr'
+  ORDER BY v.created_at
+  LIMIT 1
+)
+WHERE e.ocr_text IS NULL;
+
+CREATE OR REPLACE FUNCTION create_initial_extraction_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_ocr_text text;
+  v_version_id uuid;
+BEGIN
+  -- settings_key is canonical JSON, but nothing enforces it
+  BEGIN
+    v_settings := NEW.settings_key::jsonb;
+  EXCEPTION WHEN others THEN
+    v_settings := NULL;
+  END;
+
+  v_ocr_text := COALESCE(NEW.ocr_text, NEW.extracted_text);
+
+  INSERT INTO extraction_versions (extraction_id, author_id, kind, text, settings, created_at)
+  VALUES (NEW.id, NEW.user_id, 'ocr', v_ocr_text, v_settings, NEW.created_at)
+  RETURNING id INTO v_version_id;
+
+  IF NEW.extracted_text IS DISTINCT FROM v_ocr_text THEN
+    -- A moment later, so the versions sort after each other
+    INSERT INTO extraction_versions (extraction_id, author_id, kind, text, settings, created_at)
+    VALUES (NEW.id, NEW.user_id, 'enhancement', NEW.extracted_text, v_settings, NEW.created_at + interval '1 millisecond')
+    RETURNING id INTO v_version_id;
+  END IF;
+
+  UPDATE extractions
+  SET current_version_id = v_version_id, ocr_text = v_ocr_text
+  WHERE id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_extraction_version(
+  p_extraction_id uuid,
+  p_kind text,
+  p_text text,
+  p_settings jsonb DEFAULT NULL
+)
+RETURNS extraction_versions AS $$
+DECLARE
+  v_version extraction_versions;
+BEGIN
+  INSERT INTO extraction_versions (extraction_id, author_id, kind, text, settings)
+  VALUES (p_extraction_id, auth.uid(), p_kind, p_text, p_settings)
+  RETURNING * INTO v_version;
+
+  UPDATE extractions
+  SET current_version_id = v_version.id, extracted_text = v_version.text
+  WHERE id = p_extraction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Extraction % not found', p_extraction_id;
+  END IF;
+
+  RETURN v_version;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION add_extraction_version(uuid, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_extraction_version(uuid, text, text, jsonb) TO authenticated;
@@ -0,0 +1,74 @@
+/*
+  # Run extraction jobs from a scheduled worker
+
+  1. Changes
+    - `extraction_jobs`
+      - `lease_expires_at` (timestamptz, nullable) - While a job is running,
+        the worker processing it pushes this forward. A job whose lease has
+        passed was lost with its worker and is failed.
+      - `sealed_api_key` (text, nullable) - The caller's OpenAI API key,
+        encrypted with a key only the edge functions can derive, for the
+        worker to use. Cleared when the job ends; the API never returns it.
+
+  2. Functions
+    - `claim_extraction_job(p_lease_seconds)` - Atomically marks the oldest
+      queued job as running and returns it. Jobs locked by a concurrent claim
+      are skipped, so overlapping worker runs never process the same job.
+    - `fail_stale_extraction_jobs()` - Marks running jobs whose lease has
+      passed as failed and returns them, so the worker can delete their
+      uploads and send `extraction.failed`.
+    - Both are service role only.
+
+  3. Notes
+    - Queued jobs are picked up by the `jobs-worker` edge function. Schedule
+      it every minute, e.g. with pg_cron and pg_net:
+        select cron.schedule('jobs-worker', '* * * * *', $$
+          select net.http_post(url := '<project-url>/functions/v1/jobs-worker',
+            headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb)
+        $$);
+    - Jobs running when this migration is applied get a lease of ten minutes
+      from their last update.
+*/
+
+ALTER TABLE extraction_jobs ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz;
+ALTER TABLE extraction_jobs ADD COLUMN IF NOT EXISTS sealed_api_key text;
+
+UPDATE extraction_jobs
+SET lease_expires_at = updated_at + interval '10 minutes'
+WHERE status = 'running' AND lease_expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_queued ON extraction_jobs(created_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_lease ON extraction_jobs(lease_expires_at) WHERE status = 'running';
+
+CREATE OR REPLACE FUNCTION claim_extraction_job(p_lease_seconds integer DEFAULT 90)
+RETURNS SETOF extraction_jobs AS $$
+  UPDATE extraction_jobs
+  SET status = 'running',
+      progress = GREATEST(progress, 1),
+      started_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM extraction_jobs
+    WHERE status = 'queued'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ language 'sql';
+
+CREATE OR REPLACE FUNCTION fail_stale_extraction_jobs()
+RETURNS SETOF extraction_jobs AS $$
+  UPDATE extraction_jobs
+  SET status = 'failed',
+      error = 'The job stopped responding and was abandoned',
+      completed_at = now(),
+      lease_expires_at = NULL,
+      sealed_api_key = NULL
+  WHERE status = 'running' AND lease_expires_at < now()
+  RETURNING *;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION claim_extraction_job(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_stale_extraction_jobs() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,38 @@
+/*
+  # One page shape in ocr_layout
+
+  1. Changes
+    - `extractions.ocr_layout` pages written by the API were snake_case
+      (`page_number`, `text`, `confidence`, `method`), while the web app
+      writes `pageNumber`, `text`, `confidence`, `method`, `width`, `height`
+      and `blocks`. The API now stores the web app's shape, with `blocks`
+      empty since its parsers find no layout.
+
+  2. Notes
+    - Existing API pages are rewritten to that shape. Sheets already had one
+      shape and are left alone.
+*/
+
+UPDATE extractions
+SET ocr_layout = jsonb_set(ocr_layout, '{pages}', (
+  SELECT jsonb_agg(
+    CASE WHEN page ? 'page_number'
+      THEN jsonb_build_object(
+        'pageNumber', page->'page_number',
+        'text', page->'text',
+        'confidence', page->'confidence',
+        'method', page->'method',
+        'blocks', '[]'::jsonb
+      )
+      ELSE page
+    END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(ocr_layout->'pages') WITH ORDINALITY AS pages(page, position)
+))
+WHERE jsonb_typeof(ocr_layout->'pages') = 'array'
+  AND EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(ocr_layout->'pages') AS pages(page)
+    WHERE page ? 'page_number'
+  );
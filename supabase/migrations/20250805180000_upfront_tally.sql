@@ -0,0 +1,101 @@
+/*
+  # Reserve pages before extracting
+
+  1. Functions
+    - `consume_quota(user_id, bytes, count_request, pages)` replaces
+      `consume_quota(user_id, bytes, count_request)`. Pages were only added
+      once an extraction finished, so one large PDF sent with a page of
+      quota left ran to completion. They are now counted from the file
+      before any work and reserved with its bytes, and the request is
+      refused when `pages_used + pages` goes over the daily pages.
+      Service role only, like before.
+
+  2. Notes
+    - `record_page_usage` is no longer called by the edge functions and is
+      kept for deployments still running the previous version.
+*/
+
+DROP FUNCTION IF EXISTS consume_quota(uuid, bigint, boolean);
+
+-- Count a request and reserve its bytes and pages; rejected requests still count towards the minute window
+CREATE OR REPLACE FUNCTION consume_quota(
+  p_user_id uuid,
+  p_bytes bigint,
+  p_count_request boolean DEFAULT true,
+  p_pages integer DEFAULT 0
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan plans%ROWTYPE;
+  v_minute timestamptz := date_trunc('minute', now());
+  v_day timestamptz := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_requests integer;
+  v_pages integer;
+  v_bytes bigint;
+  v_reason text;
+BEGIN
+  SELECT * INTO v_plan
+  FROM plans
+  WHERE id = COALESCE((SELECT plan_id FROM user_plans WHERE user_id = p_user_id), 'free');
+
+  IF p_count_request THEN
+    DELETE FROM usage_counters
+    WHERE user_id = p_user_id AND period = 'minute' AND period_start < v_minute;
+
+    INSERT INTO usage_counters (user_id, period, period_start, requests)
+    VALUES (p_user_id, 'minute', v_minute, 1)
+    ON CONFLICT (user_id, period, period_start) DO UPDATE SET
+      requests = usage_counters.requests + 1
+    RETURNING requests INTO v_requests;
+  ELSE
+    SELECT COALESCE(MAX(requests), 0) INTO v_requests
+    FROM usage_counters
+    WHERE user_id = p_user_id AND period = 'minute' AND period_start = v_minute;
+  END IF;
+
+  -- Lock today's row so concurrent requests can't both squeeze under the limit
+  INSERT INTO usage_counters (user_id, period, period_start)
+  VALUES (p_user_id, 'day', v_day)
+  ON CONFLICT (user_id, period, period_start) DO NOTHING;
+
+  SELECT pages, bytes INTO v_pages, v_bytes
+  FROM usage_counters
+  WHERE user_id = p_user_id AND period = 'day' AND period_start = v_day
+  FOR UPDATE;
+
+  -- The request was already let through the rate limit when it was counted
+  IF p_count_request AND v_requests > v_plan.requests_per_minute THEN
+    v_reason := 'rate_limit';
+  ELSIF p_bytes > v_plan.max_file_bytes THEN
+    v_reason := 'file_size';
+  ELSIF v_pages + p_pages > v_plan.daily_pages OR v_bytes + p_bytes > v_plan.daily_bytes
+    OR (p_pages = 0 AND v_pages >= v_plan.daily_pages)
+    OR (p_bytes = 0 AND v_bytes >= v_plan.daily_bytes) THEN
+    v_reason := 'daily_quota';
+  ELSE
+    UPDATE usage_counters SET
+      requests = requests + CASE WHEN p_count_request THEN 1 ELSE 0 END,
+      pages = pages + p_pages,
+      bytes = bytes + p_bytes
+    WHERE user_id = p_user_id AND period = 'day' AND period_start = v_day
+    RETURNING pages, bytes INTO v_pages, v_bytes;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_reason IS NULL,
+    'reason', v_reason,
+    'plan', v_plan.id,
+    'requests_per_minute', v_plan.requests_per_minute,
+    'requests_used', v_requests,
+    'minute_reset', v_minute + interval '1 minute',
+    'daily_pages', v_plan.daily_pages,
+    'pages_used', v_pages,
+    'daily_bytes', v_plan.daily_bytes,
+    'bytes_used', v_bytes,
+    'max_file_bytes', v_plan.max_file_bytes,
+    'day_reset', v_day + interval '1 day'
+  );
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION consume_quota(uuid, bigint, boolean, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,57 @@
+/*
+  # API keys: created and rotated server side only
+
+  1. Changes
+    - Users could insert and update any column of their own keys, so revoking
+      was only a convention of the web app: a key could be un-revoked, or its
+      hash and scopes set to anything, straight through the API.
+
+  2. Security
+    - Keys are created and rotated only through the `api-keys` edge function,
+      with a session token. Users can still read, rename, revoke and delete
+      their own keys, but no longer insert them or change anything else.
+    - A trigger refuses to change `revoked_at` once it is set, whoever
+      updates the row.
+*/
+
+DROP POLICY IF EXISTS "Users can manage their own API keys" ON api_keys;
+
+CREATE POLICY "Users can read their own API keys"
+  ON api_keys
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own API keys"
+  ON api_keys
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own API keys"
+  ON api_keys
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Column privileges keep the hash, prefix and scopes out of reach of updates from the client
+REVOKE INSERT, UPDATE ON api_keys FROM anon, authenticated;
+GRANT UPDATE (name, revoked_at) ON api_keys TO authenticated;
+
+-- Revoking is final: a revoked key can't be restored or have its revocation time moved
+CREATE OR REPLACE FUNCTION keep_api_key_revoked()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'A revoked API key cannot be restored';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS keep_api_keys_revoked ON api_keys;
+CREATE TRIGGER keep_api_keys_revoked
+  BEFORE UPDATE ON api_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_api_key_revoked();